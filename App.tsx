@@ -1,14 +1,47 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { 
-  Upload, Camera, Download, Wand2, History, Save, Trash2, X, CheckSquare, Square, ZapOff, Database
+  Upload, Camera, Download, Wand2, History, Save, Trash2, X, ZapOff, Database, Settings
 } from './components/ui/Icons';
 import Toolbar from './components/Toolbar';
 import CanvasPreview from './components/CanvasPreview';
-import { Adjustments, FilterType, ImageFile, Preset, UserConfig } from './types';
+import HistoryPanel from './components/HistoryPanel';
+import ProjectsPanel from './components/ProjectsPanel';
+import ListingsPanel from './components/ListingsPanel';
+import ThumbnailStrip from './components/ThumbnailStrip';
+import BatchProgress from './components/BatchProgress';
+import ExportDialog from './components/ExportDialog';
+import FlyerEditor from './components/FlyerEditor';
+import AiSettingsDialog from './components/AiSettingsDialog';
+import { Adjustments, AiJob, AiJobKind, AiQueueState, BatchProgressItem, BrandFont, CropRect, ExportMetadata, ExportProfile, ExportSettings, FileNamingSettings, FilterType, FlyerTemplate, HistoryAction, HistoryState, ImageFile, Listing, ManualRegion, OverlayLayer, Point, Preset, ProjectRecord, UserConfig } from './types';
 import { DEFAULT_ADJUSTMENTS, FILTERS, MOCK_PRESETS } from './constants';
-import { analyzeImageForEnhancement, blobToBase64, detectPrivacyObjects, GeminiQuotaError, removeBackgroundWithAI } from './services/geminiService';
-import { processImageOnCanvas, downloadBlob, downloadAsZip } from './services/imageUtils';
+import { isQuotaError } from './services/geminiService';
+import { AI_JOB_LABELS, AiJobResult, cancelAiJob, completeAiJob, enqueueAiJob, failAiJob, getAiQueueWakeDelay, getNextAiJob, isActiveJob, isAiJobObsolete, loadAiQueue, pruneAiJobs, removeAiJobs, retryAiJob, runAiJob, saveAiQueue, startAiJob } from './services/aiQueue';
+import { AiInvalidResponseError } from './services/aiValidation';
+import { AiSettings, loadAiSettings, saveAiSettings } from './services/aiProvider';
+import { hashBlob } from './services/aiCache';
+import { downloadBlob, downloadAsZip, processImageOnCanvas } from './services/imageUtils';
+import { RenderCancelledError, RenderedFile, getSavedConcurrency, renderBatch, saveConcurrency } from './services/renderPool';
+import { loadExportMetadata, loadExportSettings, saveExportMetadata, saveExportSettings, getExtensionForMime, withExtension } from './services/exportEncoder';
+import { normalizeImport } from './services/exif';
+import { createListing, getCoverImage, getListingImages, moveImagesToListing, normalizeListings } from './services/listings';
+import { loadFlyerTemplates, saveFlyerTemplates } from './services/flyers';
+import { getRedactionRegions } from './services/privacyRegions';
+import { ThumbnailFilter, createThumbnail, reorderIds } from './services/thumbnails';
+import { checkFileSizes, getProfileFolder, loadUserProfiles, saveUserProfiles } from './services/exportProfiles';
+import { ROOM_SUGGESTIONS, formatFileName, loadFileNaming, makeUnique, parseCaptureDate, sanitizeFileName, saveFileNaming } from './services/fileNaming';
 import { supabase } from './services/supabase';
+import { DEFAULT_GUIDE } from './services/perspective';
+import { createImageLayer, createTextLayer, migrateAdjustments, updateLayer } from './services/layers';
+import { detectTilt } from './services/lineDetection';
+import { EMPTY_HISTORY, canRedo, canUndo, describeChange, recordHistory, travelHistory } from './services/history';
+import { deleteBrandFont, deleteProject, getLastProjectId, listBrandFonts, listProjects, loadProject, saveBrandFont, saveImageBlobs, saveProject, setLastProjectId } from './services/projectStore';
+import { createBrandFont, registerBrandFonts, unregisterBrandFont } from './services/fonts';
+
+const newProjectMeta = (): Pick<ProjectRecord, 'id' | 'name' | 'createdAt'> => ({
+  id: crypto.randomUUID(),
+  name: `Projeto ${new Date().toLocaleDateString()} ${new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+  createdAt: Date.now(),
+});
 
 export default function App() {
   // --- State ---
@@ -19,10 +52,14 @@ export default function App() {
   const [selectedImageIds, setSelectedImageIds] = useState<Set<string>>(new Set());
   
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isStraightening, setIsStraightening] = useState(false); // Blocks the UI while tilt detection runs
   const [processingMsg, setProcessingMsg] = useState("");
   
-  // Circuit Breaker for API Quota
-  const [quotaCooldown, setQuotaCooldown] = useState<number>(0);
+  // AI requests (detection, enhancement, background removal), persisted across reloads
+  const [aiQueue, setAiQueue] = useState<AiQueueState>(loadAiQueue);
+  const [queueWake, setQueueWake] = useState(0); // Bumped when a waiting job may start
+  const [hashWake, setHashWake] = useState(0); // Bumped when a hash finishes, to start the next
+  const [clock, setClock] = useState(Date.now); // Quota pause countdown
   
   const [presets, setPresets] = useState<Preset[]>(MOCK_PRESETS);
   const [showPresets, setShowPresets] = useState(false);
@@ -33,11 +70,56 @@ export default function App() {
   // Default Config from LocalStorage
   const [defaultConfig, setDefaultConfig] = useState<Adjustments>(DEFAULT_ADJUSTMENTS);
 
+  // Undo/Redo stack for the current session (spans all images)
+  const [historyState, setHistoryState] = useState<HistoryState>(EMPTY_HISTORY);
+
+  // Crop tool (UI only, the crop itself lives in Adjustments)
+  const [isCropping, setIsCropping] = useState(false);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [cropRatio, setCropRatio] = useState<number | null>(null);
+  // Perspective guide editing (4 points drawn on the canvas)
+  const [isEditingGuide, setIsEditingGuide] = useState(false);
+  // Privacy region editing (blur boxes drawn on the canvas)
+  const [isEditingPrivacy, setIsEditingPrivacy] = useState(false);
+
+  // Batch export (worker pool)
+  const [batchItems, setBatchItems] = useState<BatchProgressItem[] | null>(null);
+  const [renderConcurrency, setRenderConcurrency] = useState(getSavedConcurrency);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [userProfiles, setUserProfiles] = useState<ExportProfile[]>(loadUserProfiles);
+  const [exportMetadata, setExportMetadata] = useState<ExportMetadata>(loadExportMetadata);
+  const [brandFonts, setBrandFonts] = useState<BrandFont[]>([]);
+  const [flyerTemplates, setFlyerTemplates] = useState<FlyerTemplate[]>(loadFlyerTemplates);
+  const [isFlyerEditorOpen, setIsFlyerEditorOpen] = useState(false);
+
+  // AI provider and model per task
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
+  const [fileNaming, setFileNaming] = useState<FileNamingSettings>(loadFileNaming);
+  const batchAbortRef = useRef<AbortController | null>(null);
+
+  // Persisted project (IndexedDB)
+  const [project, setProject] = useState(newProjectMeta);
+  const [recentProjects, setRecentProjects] = useState<ProjectRecord[]>([]);
+  // Listings (imóveis) group the project's photos; the strip shows the active one
+  const [listings, setListings] = useState<Listing[]>(() => [createListing()]);
+  const [activeListingId, setActiveListingId] = useState<string | null>(null);
+  // Thumbnail strip
+  const [thumbnailFilter, setThumbnailFilter] = useState<ThumbnailFilter>('all');
+  const selectionAnchorRef = useRef<string | null>(null); // Start of shift-click ranges
+  const thumbnailJobsRef = useRef<Set<string>>(new Set());
+  const hashJobsRef = useRef<Set<string>>(new Set());
+  const isHashingRef = useRef(false);
+  // Autosave stays off until the last project has been restored
+  const isHydratedRef = useRef(false);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   
-  // Ref to track if the privacy detection loop is currently running
-  const isDetectingPrivacyRef = useRef(false);
+  // Latest state for AI results that arrive after later renders
+  const runningJobRef = useRef<string | null>(null); // Guards against starting a job twice
+  const latestRef = useRef({ images, aiQueue, commitAdjustments: (_after: Record<string, Adjustments>, _action: HistoryAction) => {} });
 
   // --- Initialization ---
   useEffect(() => {
@@ -47,9 +129,22 @@ export default function App() {
     const savedUserConfigs = localStorage.getItem('lumina_user_configs');
     
     if (savedPresets) setPresets(JSON.parse(savedPresets));
-    if (savedConfig) setDefaultConfig(JSON.parse(savedConfig));
+    if (savedConfig) setDefaultConfig(migrateAdjustments(JSON.parse(savedConfig)));
     if (savedUserConfigs) setUserConfigs(JSON.parse(savedUserConfigs));
 
+    // Restore the last open project
+    const lastProjectId = getLastProjectId();
+    const restore = lastProjectId ? openProject(lastProjectId) : Promise.resolve();
+    restore.finally(() => { isHydratedRef.current = true; });
+
+    // Uploaded brand fonts are registered before they show up in the font list
+    listBrandFonts()
+      .then(async fonts => {
+        await registerBrandFonts(fonts, document.fonts).catch(err => console.error("Falha ao carregar fontes:", err));
+        setBrandFonts(fonts);
+      })
+      .catch(err => console.error("Falha ao listar fontes:", err));
+
     // Check Supabase connection (Optional logging)
     supabase.auth.getSession().then(({ data: { session } }) => {
         if (session) console.log("Supabase: Usuário conectado", session.user.email);
@@ -59,29 +154,54 @@ export default function App() {
 
   // --- Derived State ---
   const viewedImage = images.find((img) => img.id === viewImageId) || null;
+  const activeListing = listings.find(l => l.id === activeListingId) || listings[0];
+  const listingImages = getListingImages(activeListing, images);
   // Use the viewed image's adjustments for the toolbar, or defaults if none
   const currentToolbarAdjustments = viewedImage ? viewedImage.adjustments : defaultConfig;
   
-  const isQuotaExhausted = Date.now() < quotaCooldown;
-  const cooldownRemaining = Math.ceil((quotaCooldown - Date.now()) / 1000);
+  const isQuotaExhausted = clock < aiQueue.pausedUntil;
+  const cooldownRemaining = Math.ceil((aiQueue.pausedUntil - clock) / 1000);
+  const hasActiveJob = (kind: AiJobKind, imageId: string | null, layerId?: string) =>
+    aiQueue.jobs.some(j => j.kind === kind && j.imageId === imageId && (!layerId || j.layerId === layerId) && isActiveJob(j));
+  const isEnhancing = hasActiveJob('enhance', viewImageId);
 
   // --- Handlers ---
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      const newImages: ImageFile[] = Array.from(files).map((item: File) => {
+      const fileList: File[] = Array.from(files);
+      // Bake EXIF orientation into the pixels and keep the capture date. One file at a
+      // time: rotated photos are decoded at full size, dozens at once would exhaust memory.
+      const imported: Awaited<ReturnType<typeof normalizeImport>>[] = [];
+      for (const item of fileList) {
+        imported.push(await normalizeImport(item).catch(err => {
+          console.error("Falha ao ler EXIF:", err);
+          return { blob: item as Blob, metadata: { captureDate: null } };
+        }));
+      }
+      // Photos join the active listing, with its default config when it has one
+      const listingConfig = userConfigs.find(c => c.id === activeListing.defaultConfigId);
+      const initialAdjustments = listingConfig ? migrateAdjustments(listingConfig.adjustments) : defaultConfig;
+      const newImages: ImageFile[] = fileList.map((item: File, idx) => {
+        const url = URL.createObjectURL(imported[idx].blob);
         return {
           id: crypto.randomUUID(),
-          originalUrl: URL.createObjectURL(item),
-          previewUrl: URL.createObjectURL(item),
+          originalUrl: url,
+          previewUrl: url,
           name: item.name,
-          type: item.type,
-          adjustments: { ...defaultConfig }, // Init with saved configuration
+          type: imported[idx].blob.type || item.type,
+          adjustments: { ...initialAdjustments }, // Init with saved configuration
+          metadata: imported[idx].metadata,
         };
       });
 
       setImages((prev) => [...prev, ...newImages]);
+      setListings(prev => prev.map(l => l.id === activeListing.id ? { ...l, imageIds: [...l.imageIds, ...newImages.map(i => i.id)] } : l));
+
+      // Keep the original bytes so the project survives a reload
+      saveImageBlobs(project.id, newImages.map((img, idx) => ({ id: img.id, blob: imported[idx].blob })))
+        .catch(err => console.error("Falha ao salvar fotos no navegador:", err));
       
       // Auto-select newly added images if none were previously there, or just add them to view
       if (!viewImageId && newImages.length > 0) {
@@ -103,57 +223,197 @@ export default function App() {
         const reader = new FileReader();
         reader.onload = (ev) => {
             const result = ev.target?.result as string;
-            // Apply to viewed image (which propagates to selection via updateAdjustments)
-            const newAdj = { 
-                ...viewedImage.adjustments, 
-                overlayImage: result,
-                overlayX: 0.5,
-                overlayY: 0.5,
-                overlayScale: 0.3,
-                overlayOpacity: 1
-            };
-            updateAdjustments(newAdj);
+            // Added on top of the viewed image's stack (which propagates to selection via updateAdjustments)
+            const layer = createImageLayer(result, { name: file.name.replace(/\.[^.]+$/, '') || 'Logo' });
+            updateAdjustments({ ...viewedImage.adjustments, layers: [...viewedImage.adjustments.layers, layer] }, { label: 'Adicionar Camada' });
+            setSelectedLayerId(layer.id);
         };
         reader.readAsDataURL(file);
     }
     if (e.target) e.target.value = '';
   };
 
-  const handleRemoveBackground = async () => {
-    if (!viewedImage || !viewedImage.adjustments.overlayImage) return;
-    if (isQuotaExhausted) {
-        setProcessingMsg(`Cota atingida. Aguarde ${cooldownRemaining}s.`);
-        setTimeout(() => setProcessingMsg(""), 3000);
-        return;
+  const handleTiledLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && viewedImage) {
+        const reader = new FileReader();
+        reader.onload = (ev) => {
+            const logo = ev.target?.result as string;
+            updateAdjustments(
+              { ...viewedImage.adjustments, tiledWatermark: { ...viewedImage.adjustments.tiledWatermark, content: 'logo', logo } },
+              { label: 'Logo do Mosaico' }
+            );
+        };
+        reader.readAsDataURL(file);
     }
+    if (e.target) e.target.value = '';
+  };
 
-    setIsProcessing(true);
-    setProcessingMsg("Removendo fundo (IA)...");
+  const handleRedactionLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && viewedImage) {
+        const reader = new FileReader();
+        reader.onload = (ev) => {
+            const logo = ev.target?.result as string;
+            updateAdjustments(
+              { ...viewedImage.adjustments, redaction: { ...viewedImage.adjustments.redaction, sticker: 'logo', logo } },
+              { label: 'Adesivo de Privacidade' }
+            );
+        };
+        reader.readAsDataURL(file);
+    }
+    if (e.target) e.target.value = '';
+  };
 
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (e.target) e.target.value = '';
+    if (!file) return;
+
+    const font = createBrandFont(file, brandFonts);
     try {
-        const base64Clean = viewedImage.adjustments.overlayImage.split(',')[1];
-        const newImageBase64 = await removeBackgroundWithAI(base64Clean);
-        const newDataUrl = `data:image/png;base64,${newImageBase64}`;
-        
-        updateAdjustments({
-            ...viewedImage.adjustments,
-            overlayImage: newDataUrl
-        });
-        setProcessingMsg("Fundo removido com sucesso!");
-    } catch (e) {
-        console.error(e);
-        if (e instanceof GeminiQuotaError || (e as any).name === 'GeminiQuotaError') {
-             setQuotaCooldown(Date.now() + 60000);
-             setProcessingMsg("Cota de IA excedida.");
-        } else {
-             setProcessingMsg("Falha ao remover fundo.");
-        }
-    } finally {
-        setIsProcessing(false);
-        setTimeout(() => setProcessingMsg(""), 2000);
+      await registerBrandFonts([font], document.fonts);
+    } catch (err) {
+      console.error(err);
+      setProcessingMsg("Arquivo de fonte inválido.");
+      setTimeout(() => setProcessingMsg(""), 3000);
+      return;
     }
+    setBrandFonts(prev => [...prev, font]);
+    saveBrandFont(font).catch(err => console.error("Falha ao salvar fonte:", err));
+
+    if (viewedImage) {
+      updateAdjustments(
+        { ...viewedImage.adjustments, watermarkStyle: { ...viewedImage.adjustments.watermarkStyle, fontFamily: font.family } },
+        { label: `Fonte: ${font.family}` }
+      );
+    }
+  };
+
+  // Photos using the font keep the family name and fall back to sans-serif
+  const handleDeleteFont = (id: string) => {
+    unregisterBrandFont(id, document.fonts);
+    setBrandFonts(prev => prev.filter(f => f.id !== id));
+    deleteBrandFont(id).catch(err => console.error("Falha ao excluir fonte:", err));
   };
 
+  const handleAddTextLayer = () => {
+    if (!viewedImage) return;
+    const layer = createTextLayer('Seu texto aqui');
+    updateAdjustments({ ...viewedImage.adjustments, layers: [...viewedImage.adjustments.layers, layer] }, { label: 'Adicionar Texto' });
+    setSelectedLayerId(layer.id);
+  };
+
+  // Queued; the result is applied by the AI queue runner
+  const handleRemoveBackground = () => {
+    const layer = viewedImage?.adjustments.layers.find(l => l.id === selectedLayerId);
+    if (!viewedImage || !layer || layer.kind !== 'image') return;
+    setAiQueue(q => enqueueAiJob(q, 'removeBackground', viewedImage.id, { layerId: layer.id }));
+  };
+
+  // --- PROJECT HANDLERS ---
+
+  const resetWorkspace = () => {
+      images.forEach(i => {
+          URL.revokeObjectURL(i.originalUrl);
+          if (i.thumbnailUrl) URL.revokeObjectURL(i.thumbnailUrl);
+      });
+      setImages([]);
+      setViewImageId(null);
+      setSelectedImageIds(new Set());
+      setHistoryState(EMPTY_HISTORY);
+  };
+
+  const refreshRecentProjects = () => {
+      listProjects()
+        .then(setRecentProjects)
+        .catch(err => console.error("Falha ao listar projetos:", err));
+  };
+
+  async function openProject(id: string) {
+      try {
+          const stored = await loadProject(id);
+          if (!stored) {
+              setLastProjectId(null);
+              return;
+          }
+
+          resetWorkspace();
+          const restored: ImageFile[] = stored.images.map(rec => {
+              const url = URL.createObjectURL(rec.blob);
+              return {
+                  id: rec.id,
+                  originalUrl: url,
+                  previewUrl: url,
+                  name: rec.name,
+                  type: rec.type,
+                  adjustments: migrateAdjustments(rec.adjustments),
+                  privacyRegions: rec.privacyRegions,
+                  manualRegions: rec.manualRegions,
+                  metadata: rec.metadata,
+                  room: rec.room,
+                  contentHash: rec.contentHash,
+              };
+          });
+          const ids = new Set(restored.map(i => i.id));
+
+          const restoredListings = normalizeListings(stored.project.listings, restored.map(i => i.id));
+          const activeId = restoredListings.some(l => l.id === stored.project.activeListingId) ? stored.project.activeListingId : restoredListings[0].id;
+
+          setProject({ id: stored.project.id, name: stored.project.name, createdAt: stored.project.createdAt });
+          setImages(restored);
+          setListings(restoredListings);
+          setActiveListingId(activeId);
+          setSelectedImageIds(new Set(stored.project.selectedImageIds.filter(i => ids.has(i))));
+          setViewImageId(stored.project.viewImageId && ids.has(stored.project.viewImageId) ? stored.project.viewImageId : (restored[0]?.id ?? null));
+          setLastProjectId(id);
+      } catch (e) {
+          console.error("Falha ao carregar projeto:", e);
+          setProcessingMsg("Não foi possível abrir o projeto.");
+          setTimeout(() => setProcessingMsg(""), 3000);
+      }
+  }
+
+  const handleNewProject = () => {
+      resetWorkspace();
+      setProject(newProjectMeta());
+      setListings([createListing()]);
+      setActiveListingId(null);
+      setLastProjectId(null);
+  };
+
+  const handleDeleteProject = async (id: string) => {
+      if (!confirm("Excluir este projeto salvo?")) return;
+      try {
+          await deleteProject(id);
+          if (id === project.id) handleNewProject();
+      } catch (e) {
+          console.error("Falha ao excluir projeto:", e);
+      }
+      refreshRecentProjects();
+  };
+
+  // Autosave: debounce writes while the user is editing
+  useEffect(() => {
+    if (!isHydratedRef.current || images.length === 0) return;
+
+    const t = setTimeout(() => {
+      const record: ProjectRecord = {
+        ...project,
+        updatedAt: Date.now(),
+        imageIds: images.map(i => i.id),
+        selectedImageIds: Array.from(selectedImageIds),
+        viewImageId,
+        listings,
+        activeListingId: activeListing.id,
+      };
+      saveProject(record, images)
+        .then(() => setLastProjectId(project.id))
+        .catch(err => console.error("Falha ao salvar projeto:", err));
+    }, 800);
+    return () => clearTimeout(t);
+  }, [images, selectedImageIds, viewImageId, project, listings, activeListing]);
+
   // --- USER CONFIG HANDLERS ---
   
   const handleSaveUserConfig = (name: string) => {
@@ -163,7 +423,8 @@ export default function App() {
           id: crypto.randomUUID(),
           name: name,
           createdAt: Date.now(),
-          adjustments: { ...viewedImage.adjustments }
+          adjustments: { ...viewedImage.adjustments },
+          naming: fileNaming,
       };
 
       const updatedConfigs = [newConfig, ...userConfigs]; // Add to top
@@ -182,201 +443,540 @@ export default function App() {
   };
 
   const handleLoadUserConfig = (config: UserConfig) => {
-      // This applies everything: filters, privacy settings, overlay images, watermark text
-      updateAdjustments(config.adjustments);
+      // This applies everything: filters, privacy settings, layers, watermark text
+      // Configs saved by older versions may miss newer fields
+      updateAdjustments(migrateAdjustments(config.adjustments), { label: `Config: ${config.name}` });
+      if (config.naming) handleFileNamingChange(config.naming);
       setProcessingMsg(`Configuração "${config.name}" aplicada!`);
       setTimeout(() => setProcessingMsg(""), 2000);
   };
 
-  // The core update logic for adjustments
-  const updateAdjustments = useCallback(async (newAdj: Adjustments) => {
+  // Writes per-image adjustments (keyed by image id) as a single undoable step
+  const commitAdjustments = useCallback((after: Record<string, Adjustments>, action: HistoryAction) => {
+    const before: Record<string, Adjustments> = {};
+    images.forEach(img => {
+      if (after[img.id]) before[img.id] = img.adjustments;
+    });
+    if (Object.keys(before).length === 0) return;
+
+    setHistoryState(prev => recordHistory(prev, {
+      id: crypto.randomUUID(),
+      label: action.label,
+      mergeKey: action.mergeKey,
+      timestamp: Date.now(),
+      before,
+      after,
+    }));
+
     setImages(prevImages => {
-      return prevImages.map(img => {
-        if (selectedImageIds.has(img.id)) {
-          return { ...img, adjustments: newAdj };
-        }
-        return img;
-      });
+      return prevImages.map(img => after[img.id] ? { ...img, adjustments: after[img.id] } : img);
     });
-  }, [selectedImageIds]);
+  }, [images]);
 
-  // Effect to handle Privacy Detection Side Effect
-  useEffect(() => {
-    const checkPrivacy = async () => {
-      // If a loop is already running, do not start another one.
-      if (isDetectingPrivacyRef.current) return;
-      
-      // If quota is exhausted, do not attempt to run
-      if (Date.now() < quotaCooldown) return;
-
-      // Find selected images that have privacy enabled BUT no regions detected yet
-      const needsDetection = images.filter(img => 
-        selectedImageIds.has(img.id) && 
-        img.adjustments.privacyBlur && 
-        (!img.privacyRegions) // Check for undefined/null only. Empty [] means "checked, none found".
-      );
+  const updateAdjustments = useCallback(async (newAdj: Adjustments, action?: HistoryAction) => {
+    const targets = images.filter(img => selectedImageIds.has(img.id));
+    if (targets.length === 0) return;
 
-      if (needsDetection.length === 0) return;
+    const after: Record<string, Adjustments> = {};
+    targets.forEach(img => {
+      after[img.id] = newAdj;
+    });
 
-      // Lock the process
-      isDetectingPrivacyRef.current = true;
+    const reference = targets.find(img => img.id === viewImageId) || targets[0];
+    commitAdjustments(after, action || describeChange(reference.adjustments, newAdj));
+  }, [images, selectedImageIds, viewImageId, commitAdjustments]);
 
-      // Detect for the VIEWED image first for immediate feedback
-      const prio = needsDetection.find(img => img.id === viewImageId);
-      const queue = prio ? [prio, ...needsDetection.filter(i => i.id !== viewImageId)] : needsDetection;
+  const handleCropChange = useCallback((crop: CropRect | null) => {
+    if (viewedImage) updateAdjustments({ ...viewedImage.adjustments, crop });
+  }, [viewedImage, updateAdjustments]);
 
-      console.log(`Iniciando fila de detecção para ${queue.length} imagens...`);
+  // Handle drags in the canvas; one merge key per layer and gesture keeps a drag as one undo step
+  const handleLayerChange = useCallback((id: string, patch: Partial<OverlayLayer>) => {
+    if (!viewedImage) return;
+    updateAdjustments(
+      { ...viewedImage.adjustments, layers: updateLayer(viewedImage.adjustments.layers, id, patch) },
+      { label: 'scale' in patch ? 'Redimensionar Camada' : 'rotation' in patch ? 'Girar Camada' : 'Mover Camada', mergeKey: `layer:${id}:${Object.keys(patch).sort().join(',')}` }
+    );
+  }, [viewedImage, updateAdjustments]);
 
-      // Process one by one
-      for (const img of queue) {
-        // Check quota again inside loop in case it changed
-        if (Date.now() < quotaCooldown) break;
+  const handleGuideChange = useCallback((guide: Point[]) => {
+    if (viewedImage) updateAdjustments({ ...viewedImage.adjustments, perspectiveGuide: guide });
+  }, [viewedImage, updateAdjustments]);
 
-        try {
-            const res = await fetch(img.originalUrl);
-            const blob = await res.blob();
-            const base64 = await blobToBase64(blob);
-            const boxes = await detectPrivacyObjects(base64);
-            
-            if (boxes !== null) {
-              setImages(prev => prev.map(i => {
-                  if (i.id === img.id) {
-                      return { ...i, privacyRegions: boxes };
-                  }
-                  return i;
-              }));
-            }
+  // Manual regions belong to the photo, not to the adjustments: they are never copied
+  // to the selection or to presets
+  const handleManualRegionsChange = useCallback((regions: ManualRegion[]) => {
+    if (!viewImageId) return;
+    setImages(prev => prev.map(img => img.id === viewImageId ? { ...img, manualRegions: regions } : img));
+  }, [viewImageId]);
 
-            // RATE LIMITING: Wait 4 seconds between requests
-            await new Promise(r => setTimeout(r, 4000));
+  // Clearing the detections asks the AI again, past the cache; manual boxes and
+  // ignore marks are kept
+  const handleRedetectPrivacy = () => {
+    if (!viewImageId) return;
+    setImages(prev => prev.map(img => img.id === viewImageId ? { ...img, privacyRegions: undefined } : img));
+    setAiQueue(q => enqueueAiJob(removeAiJobs(q, viewImageId, 'detectPrivacy'), 'detectPrivacy', viewImageId, { bypassCache: true }));
+  };
 
-        } catch (e) {
-            console.error("Erro no processamento:", e);
-            
-            // Check if it's our quota error
-            if (e instanceof GeminiQuotaError || (e as any).name === 'GeminiQuotaError') {
-                const cooldownSecs = 60;
-                setQuotaCooldown(Date.now() + (cooldownSecs * 1000));
-                setProcessingMsg(`Cota de IA atingida. Pausando por ${cooldownSecs}s...`);
-                setTimeout(() => setProcessingMsg(""), 4000);
-                break; // Stop the loop immediately
-            }
-        }
-      }
+  // Crop, guide and privacy editing all take over the canvas, only one at a time
+  const toggleCropping = () => {
+    setIsEditingGuide(false);
+    setIsEditingPrivacy(false);
+    setIsCropping(!isCropping);
+  };
 
-      // Unlock
-      isDetectingPrivacyRef.current = false;
+  const togglePrivacyEditing = () => {
+    setIsCropping(false);
+    setIsEditingGuide(false);
+    setIsEditingPrivacy(!isEditingPrivacy);
+  };
+
+  const toggleGuideEditing = () => {
+    setIsCropping(false);
+    setIsEditingPrivacy(false);
+    if (!isEditingGuide && viewedImage && !viewedImage.adjustments.perspectiveGuide) {
+      updateAdjustments({ ...viewedImage.adjustments, perspectiveGuide: DEFAULT_GUIDE }, { label: 'Guia de Perspectiva' });
+    }
+    setIsEditingGuide(!isEditingGuide);
+  };
+
+  // --- HISTORY HANDLERS ---
+
+  const jumpToHistory = useCallback((index: number) => {
+    const { state, patch } = travelHistory(historyState, index);
+    setHistoryState(state);
+    setImages(prev => prev.map(img => patch[img.id] ? { ...img, adjustments: patch[img.id] } : img));
+  }, [historyState]);
+
+  const handleUndo = useCallback(() => {
+    if (canUndo(historyState)) jumpToHistory(historyState.historyIndex - 1);
+  }, [historyState, jumpToHistory]);
+
+  const handleRedo = useCallback(() => {
+    if (canRedo(historyState)) jumpToHistory(historyState.historyIndex + 1);
+  }, [historyState, jumpToHistory]);
+
+  // Keyboard shortcuts: Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y also redoes)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      // Let text fields keep their native undo
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && (target as HTMLInputElement).type === 'text'))) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
     };
-    
-    // Check periodically or when dependencies change
-    const t = setTimeout(checkPrivacy, 1000);
-    return () => clearTimeout(t);
-  }, [images, selectedImageIds, viewImageId, quotaCooldown]);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
 
-  // Auto-decrement cooldown timer for UI updates
+  // Effect to handle Privacy Detection Side Effect
+  // Selected photos with privacy on and no detection yet get a detection job. Failed and
+  // cancelled jobs stay on their thumbnail until retried, so they are not queued again.
   useEffect(() => {
-    if (quotaCooldown > 0) {
-        const i = setInterval(() => {
-            if (Date.now() > quotaCooldown) {
-                setQuotaCooldown(0); // Reset
-                clearInterval(i);
-            } else {
-                // Force re-render for timer
-                setQuotaCooldown(prev => prev); 
-            }
-        }, 1000);
-        return () => clearInterval(i);
+    const pending = images.filter(img =>
+      selectedImageIds.has(img.id) &&
+      img.adjustments.privacyBlur &&
+      !img.privacyRegions && // Empty [] means "checked, none found"
+      !aiQueue.jobs.some(j => j.kind === 'detectPrivacy' && j.imageId === img.id)
+    );
+    if (pending.length === 0) return;
+    setAiQueue(q => pending.reduce((state, img) => enqueueAiJob(state, 'detectPrivacy', img.id), q));
+  }, [images, selectedImageIds, aiQueue.jobs]);
+
+  useEffect(() => saveAiQueue(aiQueue), [aiQueue]);
+
+  // Jobs of photos removed from the workspace go too (after the last project is restored)
+  useEffect(() => {
+    if (isHydratedRef.current) setAiQueue(q => pruneAiJobs(q, images));
+  }, [images]);
+
+  latestRef.current = { images, aiQueue, commitAdjustments };
+
+  const applyAiResult = (job: AiJob, result: AiJobResult) => {
+    const { images, commitAdjustments } = latestRef.current;
+    const image = images.find(i => i.id === job.imageId);
+    if (!image) return;
+    if (result.kind === 'detectPrivacy') {
+      setImages(prev => prev.map(i => i.id === job.imageId ? { ...i, privacyRegions: result.boxes } : i));
+    } else if (result.kind === 'enhance') {
+      commitAdjustments({ [image.id]: { ...image.adjustments, ...result.adjustments } }, { label: 'Melhoria IA' });
+      if (result.cached) {
+        setProcessingMsg("Melhoria IA aplicada (resultado em cache).");
+        setTimeout(() => setProcessingMsg(""), 2000);
+      }
+    } else {
+      commitAdjustments(
+        { [image.id]: { ...image.adjustments, layers: updateLayer(image.adjustments.layers, result.layerId, { src: result.src }) } },
+        { label: 'Remover Fundo (IA)' }
+      );
+      setProcessingMsg("Fundo removido com sucesso!");
+      setTimeout(() => setProcessingMsg(""), 2000);
+    }
+  };
+
+  // Runner: starts the next job when the rate limit allows, otherwise sleeps until one can start
+  useEffect(() => {
+    if (runningJobRef.current) return;
+    const now = Date.now();
+    const imageIds = new Set(images.map(i => i.id));
+    const job = getNextAiJob(aiQueue, imageIds, viewImageId, now);
+    if (!job) {
+      const delay = getAiQueueWakeDelay(aiQueue, imageIds, now);
+      if (delay === null) return;
+      const t = setTimeout(() => setQueueWake(w => w + 1), delay + 50);
+      return () => clearTimeout(t);
     }
-  }, [quotaCooldown]);
+
+    const image = images.find(i => i.id === job.imageId)!;
+    if (isAiJobObsolete(job, image)) {
+      setAiQueue(q => completeAiJob(q, job.id));
+      return;
+    }
+
+    runningJobRef.current = job.id;
+    setAiQueue(q => startAiJob(q, job.id, now));
+    runAiJob(job, image, aiSettings)
+      .finally(() => { runningJobRef.current = null; setQueueWake(w => w + 1); })
+      .then(result => {
+        // Cancelled while running: the result is dropped
+        if (latestRef.current.aiQueue.jobs.find(j => j.id === job.id)?.status !== 'running') return;
+        applyAiResult(job, result);
+        setAiQueue(q => completeAiJob(q, job.id));
+      })
+      .catch(err => {
+        console.error(`Falha na tarefa de IA (${AI_JOB_LABELS[job.kind]}):`, err);
+        setAiQueue(q => failAiJob(q, job.id, err));
+        if (err instanceof AiInvalidResponseError) {
+          setProcessingMsg(`A IA retornou dados inválidos para ${image.name}.`);
+          setTimeout(() => setProcessingMsg(""), 4000);
+        } else if (isQuotaError(err)) {
+          setProcessingMsg("Cota de IA atingida. Fila pausada por 60s...");
+          setTimeout(() => setProcessingMsg(""), 4000);
+        }
+      });
+  }, [aiQueue, images, viewImageId, aiSettings, queueWake]);
+
+  // Ticks once a second while the queue is paused, for the countdown
+  useEffect(() => {
+    if (aiQueue.pausedUntil <= Date.now()) return;
+    const i = setInterval(() => {
+      setClock(Date.now());
+      if (Date.now() > aiQueue.pausedUntil) clearInterval(i);
+    }, 1000);
+    setClock(Date.now());
+    return () => clearInterval(i);
+  }, [aiQueue.pausedUntil]);
+
+  const handleRetryAiJob = (id: string) => setAiQueue(q => retryAiJob(q, id));
+
+  // Active jobs are cancelled; failed or cancelled ones are dismissed
+  const handleCancelAiJob = (id: string) => setAiQueue(q => {
+    const job = q.jobs.find(j => j.id === id);
+    return job && isActiveJob(job) ? cancelAiJob(q, id) : completeAiJob(q, id);
+  });
 
   const applyFilter = (type: FilterType) => {
     const filterAdj = FILTERS[type];
     const base = viewedImage ? viewedImage.adjustments : defaultConfig;
     const newAdj = { ...base, ...filterAdj };
-    updateAdjustments(newAdj);
+    updateAdjustments(newAdj, { label: `Filtro: ${type}` });
   };
 
-  const handleAutoEnhance = async () => {
-    if (!viewedImage) return;
-    if (isQuotaExhausted) {
-        setProcessingMsg(`Aguarde ${cooldownRemaining}s para usar IA novamente.`);
-        setTimeout(() => setProcessingMsg(""), 3000);
-        return;
-    }
+  // Offline straightening: detects the tilt of every selected photo locally (no Gemini call)
+  const handleAutoStraighten = async () => {
+    const targets = images.filter(img => selectedImageIds.has(img.id));
+    if (targets.length === 0) return;
 
     setIsProcessing(true);
-    setProcessingMsg("Melhoria IA...");
+    setIsStraightening(true);
+    const after: Record<string, Adjustments> = {};
+    let detected = 0;
+
     try {
-      const response = await fetch(viewedImage.originalUrl);
-      const blob = await response.blob();
-      const base64 = await blobToBase64(blob);
-      
-      const suggestion = await analyzeImageForEnhancement(base64);
-      if (Object.keys(suggestion).length > 0) {
-        updateAdjustments({ ...viewedImage.adjustments, ...suggestion });
+      for (let i = 0; i < targets.length; i++) {
+        const img = targets[i];
+        setProcessingMsg(`Endireitando ${i + 1}/${targets.length}: ${img.name}`);
+        const result = await detectTilt(img.originalUrl);
+        if (!result) continue;
+
+        // Detection runs on the original, a single mirror inverts the direction
+        const mirrored = img.adjustments.flipH !== img.adjustments.flipV;
+        after[img.id] = { ...img.adjustments, straighten: mirrored ? -result.correction : result.correction };
+        detected++;
       }
+
+      if (detected > 0) commitAdjustments(after, { label: 'Endireitar Automático' });
+      setProcessingMsg(detected > 0
+        ? `Inclinação corrigida em ${detected} de ${targets.length} foto(s).`
+        : "Nenhuma linha de referência encontrada.");
     } catch (e) {
       console.error(e);
-      if (e instanceof GeminiQuotaError || (e as any).name === 'GeminiQuotaError') {
-          setQuotaCooldown(Date.now() + 60000);
-          setProcessingMsg("Cota atingida. Tente novamente em 60s.");
-      } else {
-          setProcessingMsg("Falha na análise.");
-      }
-      setTimeout(() => setProcessingMsg(""), 3000);
+      setProcessingMsg("Falha ao detectar inclinação.");
     } finally {
       setIsProcessing(false);
+      setIsStraightening(false);
+      setTimeout(() => setProcessingMsg(""), 3000);
     }
   };
 
-  const handleBatchDownload = async () => {
-    if (images.length === 0) return;
-    
-    // Determine which images to download
-    const targetIds = selectedImageIds.size > 0 ? Array.from(selectedImageIds) : images.map(i => i.id);
-    const targets = images.filter(i => targetIds.includes(i.id));
+  const handleAutoEnhance = () => {
+    if (viewedImage) setAiQueue(q => enqueueAiJob(q, 'enhance', viewedImage.id));
+  };
+
+  // Images the export applies to: the selection, or everything when nothing is selected
+  const getExportTargets = () => {
+    // Scoped to the active listing, in its strip order
+    return selectedImageIds.size > 0 ? listingImages.filter(i => selectedImageIds.has(i.id)) : listingImages;
+  };
 
+  // Runs one or more render passes with the batch progress modal and cancel support.
+  // Each pass returns the files to download; everything ends up in one download.
+  const runExport = async (
+    passes: { label: string; settings: ExportSettings; toFiles: (rendered: RenderedFile[]) => { blob: Blob; name: string }[] }[],
+    targets: ImageFile[],
+    zipFilename: string
+  ) => {
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
     setIsProcessing(true);
-    setProcessingMsg(`Renderizando ${targets.length} fotos...`);
-    
+
     try {
         const processedFiles: { blob: Blob; name: string }[] = [];
+        const warnings: string[] = [];
 
-        // Generate blobs for all target images
-        for (let i = 0; i < targets.length; i++) {
-            const img = targets[i];
-            setProcessingMsg(`Processando ${i+1}/${targets.length}: ${img.name}`);
-            
-            const processedBlob = await processImageOnCanvas(
-                img.originalUrl, 
-                img.adjustments, 
-                img.privacyRegions
-            );
-            
-            processedFiles.push({
-                blob: processedBlob,
-                name: `edited_${img.name}`
+        for (const pass of passes) {
+            setBatchItems(targets.map(img => ({ id: img.id, name: img.name, status: 'queued' })));
+            setProcessingMsg(pass.label);
+
+            // Rendered off the main thread by the worker pool
+            const rendered = await renderBatch(targets, {
+                concurrency: renderConcurrency,
+                settings: pass.settings,
+                exportMetadata,
+                fonts: brandFonts,
+                signal: controller.signal,
+                onProgress: (id, status, error) => {
+                    setBatchItems(prev => prev && prev.map(item => item.id === id ? { ...item, status, error } : item));
+                },
             });
+
+            if (rendered.length < targets.length) {
+                warnings.push(`${targets.length - rendered.length} foto(s) não puderam ser processadas.`);
+            }
+            processedFiles.push(...pass.toFiles(rendered));
         }
 
         setProcessingMsg("Finalizando download...");
 
         // If single file, download directly. If multiple, zip them.
         if (processedFiles.length === 1) {
-            downloadBlob(processedFiles[0].blob, processedFiles[0].name);
+            downloadBlob(processedFiles[0].blob, processedFiles[0].name.split('/').pop()!);
         } else if (processedFiles.length > 1) {
-            await downloadAsZip(processedFiles, "lumina_fotos_editadas.zip");
+            await downloadAsZip(processedFiles, zipFilename);
         }
 
+        return warnings;
     } catch (e) {
+        if (e instanceof RenderCancelledError) {
+            setProcessingMsg("Exportação cancelada.");
+            setTimeout(() => setProcessingMsg(""), 2000);
+            return null;
+        }
         console.error(e);
         alert("Erro durante o download em lote.");
+        return null;
     } finally {
+        batchAbortRef.current = null;
+        setBatchItems(null);
         setIsProcessing(false);
-        setProcessingMsg("");
+        if (!controller.signal.aborted) setProcessingMsg("");
     }
   };
 
+  // File names follow the template; {seq} is the position in the thumbnail strip
+  const nameExportFiles = (rendered: RenderedFile[], targets: ImageFile[], template: string, profile?: string) => {
+      const byId = new Map(targets.map(img => [img.id, img]));
+      const names = rendered.map(file => {
+          const img = byId.get(file.id)!;
+          const base = formatFileName(template, {
+              listingCode: activeListing.code,
+              seq: targets.indexOf(img) + 1,
+              room: img.room,
+              original: img.name,
+              date: parseCaptureDate(img.metadata?.captureDate),
+              profile,
+          }) || `foto_${targets.indexOf(img) + 1}`;
+          return `${base}.${getExtensionForMime(file.blob.type)}`;
+      });
+      return makeUnique(names).map((name, i) => ({ blob: rendered[i].blob, name }));
+  };
+
+  const getZipName = () => `${formatFileName(fileNaming.zipName, { listingCode: activeListing.code }) || 'lumina_fotos'}.zip`;
+
+  const handleBatchDownload = async (settings: ExportSettings) => {
+    if (listingImages.length === 0) return;
+    setIsExportDialogOpen(false);
+    setExportSettings(settings);
+    saveExportSettings(settings);
+
+    const targets = getExportTargets();
+    const warnings = await runExport([{
+        label: `Renderizando ${targets.length} fotos...`,
+        settings,
+        toFiles: rendered => nameExportFiles(rendered, targets, fileNaming.template),
+    }], targets, getZipName());
+
+    if (warnings && warnings.length > 0) alert(warnings.join('\n'));
+  };
+
+  // One render pass per portal profile, one folder per profile inside the ZIP
+  const handleProfileDownload = async (profiles: ExportProfile[]) => {
+    if (listingImages.length === 0 || profiles.length === 0) return;
+    setIsExportDialogOpen(false);
+
+    const targets = getExportTargets();
+    const sizeWarnings: string[] = [];
+    const warnings = await runExport(profiles.map((profile, index) => ({
+        label: `${profile.name} (${index + 1}/${profiles.length})`,
+        settings: profile.settings,
+        toFiles: rendered => {
+            const files = nameExportFiles(rendered, targets, profile.fileNameTemplate, profile.name);
+            sizeWarnings.push(...checkFileSizes(profile, files));
+            return files.map(f => ({ ...f, name: `${getProfileFolder(profile)}/${f.name}` }));
+        },
+    })), targets, getZipName());
+
+    const all = [...(warnings || []), ...sizeWarnings];
+    if (warnings && all.length > 0) alert(all.join('\n'));
+  };
+
+  const handleUserProfilesChange = (profiles: ExportProfile[]) => {
+      setUserProfiles(profiles);
+      saveUserProfiles(profiles);
+  };
+
+  const handleAiSettingsChange = (settings: AiSettings) => {
+      setAiSettings(settings);
+      saveAiSettings(settings);
+  };
+
+  const handleFileNamingChange = (naming: FileNamingSettings) => {
+      setFileNaming(naming);
+      saveFileNaming(naming);
+  };
+
+  // --- LISTING HANDLERS ---
+
+  const handleSelectListing = (id: string) => {
+      const listing = listings.find(l => l.id === id);
+      if (!listing) return;
+      const first = getListingImages(listing, images)[0];
+      setActiveListingId(id);
+      setViewImageId(first?.id ?? null);
+      setSelectedImageIds(new Set(first ? [first.id] : []));
+      setIsCropping(false);
+      setIsEditingGuide(false);
+      setIsEditingPrivacy(false);
+  };
+
+  const handleCreateListing = () => {
+      const listing = createListing();
+      setListings(prev => [...prev, listing]);
+      setActiveListingId(listing.id);
+      setViewImageId(null);
+      setSelectedImageIds(new Set());
+  };
+
+  const handleUpdateListing = (id: string, patch: Partial<Listing>) => {
+      setListings(prev => prev.map(l => l.id === id ? { ...l, ...patch } : l));
+  };
+
+  // --- FLYER HANDLERS ---
+
+  const handleFlyerTemplatesChange = (templates: FlyerTemplate[]) => {
+      setFlyerTemplates(templates);
+      saveFlyerTemplates(templates);
+  };
+
+  // The post is the listing cover with its edits, rendered at full size with the template on top
+  const handleFlyerDownload = async (template: FlyerTemplate) => {
+      const cover = getCoverImage(activeListing, images);
+      if (!cover) return;
+      setIsProcessing(true);
+      setProcessingMsg("Gerando post...");
+      try {
+          const blob = await processImageOnCanvas(
+            cover.originalUrl, cover.adjustments, getRedactionRegions(cover), exportSettings, cover.metadata, exportMetadata,
+            { template, listing: activeListing }
+          );
+          downloadBlob(blob, withExtension(sanitizeFileName(`${activeListing.code || 'imovel'}_post`), blob.type));
+          setProcessingMsg("");
+      } catch (e) {
+          console.error(e);
+          setProcessingMsg("Falha ao gerar o post.");
+          setTimeout(() => setProcessingMsg(""), 3000);
+      } finally {
+          setIsProcessing(false);
+      }
+  };
+
+  const handleDeleteListing = (id: string) => {
+      const listing = listings.find(l => l.id === id);
+      if (!listing) return;
+      if (listing.imageIds.length > 0 && !confirm(`Excluir o imóvel e suas ${listing.imageIds.length} fotos?`)) return;
+
+      const removed = new Set(listing.imageIds);
+      images.filter(i => removed.has(i.id)).forEach(i => {
+          URL.revokeObjectURL(i.originalUrl);
+          if (i.thumbnailUrl) URL.revokeObjectURL(i.thumbnailUrl);
+      });
+      setImages(prev => prev.filter(i => !removed.has(i.id)));
+      // Autosave skips empty projects, drop the stored copy so the photos don't come back
+      if (removed.size === images.length) deleteProject(project.id).catch(err => console.error("Falha ao excluir projeto:", err));
+
+      const remaining = listings.filter(l => l.id !== id);
+      const next = remaining.length > 0 ? remaining : [createListing()];
+      setListings(next);
+      const nextActive = next[0];
+      const first = getListingImages(nextActive, images.filter(i => !removed.has(i.id)))[0];
+      setActiveListingId(nextActive.id);
+      setViewImageId(first?.id ?? null);
+      setSelectedImageIds(new Set(first ? [first.id] : []));
+  };
+
+  const handleMoveSelection = (targetId: string) => {
+      const ids = listingImages.filter(i => selectedImageIds.has(i.id)).map(i => i.id);
+      setListings(prev => moveImagesToListing(prev, ids, targetId));
+      const remaining = listingImages.filter(i => !selectedImageIds.has(i.id));
+      setViewImageId(remaining[0]?.id ?? null);
+      setSelectedImageIds(new Set(remaining[0] ? [remaining[0].id] : []));
+  };
+
+  const handleListingCodeChange = (code: string) => handleUpdateListing(activeListing.id, { code });
+
+  const handleRoomChange = (id: string, room: string) => {
+      setImages(prev => prev.map(img => img.id === id ? { ...img, room } : img));
+  };
+
+  const handleExportMetadataChange = (metadata: ExportMetadata) => {
+      setExportMetadata(metadata);
+      saveExportMetadata(metadata);
+  };
+
+  const handleRenderConcurrencyChange = (value: number) => {
+      setRenderConcurrency(value);
+      saveConcurrency(value);
+  };
+
   const savePreset = () => {
     if (!viewedImage) return;
     const name = prompt("Nome do Modelo:");
@@ -390,10 +990,9 @@ export default function App() {
 
   const clearAllPhotos = () => {
       if (confirm("Remover todas as fotos? Isso não pode ser desfeito.")) {
-          images.forEach(i => URL.revokeObjectURL(i.originalUrl));
-          setImages([]);
-          setViewImageId(null);
-          setSelectedImageIds(new Set());
+          // Also wipe the stored copy, otherwise it would come back on reload
+          deleteProject(project.id).catch(err => console.error("Falha ao excluir projeto:", err));
+          handleNewProject();
       }
   };
 
@@ -407,21 +1006,80 @@ export default function App() {
       setSelectedImageIds(newSet);
   };
 
-  const selectAll = () => {
-      if (selectedImageIds.size === images.length) {
+  const selectAll = (visibleIds: string[]) => {
+      if (visibleIds.length > 0 && visibleIds.every(id => selectedImageIds.has(id))) {
           setSelectedImageIds(new Set());
       } else {
-          setSelectedImageIds(new Set(images.map(i => i.id)));
+          setSelectedImageIds(new Set(visibleIds));
       }
   };
 
-  const handleThumbnailClick = (id: string) => {
+  const handleThumbnailClick = (id: string, visibleIds: string[], modifiers: { shift: boolean; toggle: boolean }) => {
+      const anchor = selectionAnchorRef.current;
+      if (modifiers.shift && anchor && visibleIds.includes(anchor)) {
+          // Range in the order shown by the strip (filters applied)
+          const [from, to] = [visibleIds.indexOf(anchor), visibleIds.indexOf(id)].sort((a, b) => a - b);
+          setSelectedImageIds(new Set(visibleIds.slice(from, to + 1)));
+          setViewImageId(id);
+          return;
+      }
+      selectionAnchorRef.current = id;
+      if (modifiers.toggle) {
+          toggleSelection(id, true);
+          return;
+      }
       setViewImageId(id);
       if (selectedImageIds.size <= 1 && !selectedImageIds.has(id)) {
           setSelectedImageIds(new Set([id]));
       }
   };
 
+  const handleReorder = (ids: string[], beforeId: string | null) => {
+      handleUpdateListing(activeListing.id, { imageIds: reorderIds(activeListing.imageIds, ids, beforeId) });
+  };
+
+  // Generate strip thumbnails one at a time, so a big import doesn't decode everything at once
+  useEffect(() => {
+    const pending = images.find(img => !img.thumbnailUrl && !thumbnailJobsRef.current.has(img.id));
+    if (!pending) return;
+    thumbnailJobsRef.current.add(pending.id);
+
+    fetch(pending.originalUrl)
+      .then(res => res.blob())
+      .then(blob => createThumbnail(blob))
+      .then(thumb => URL.createObjectURL(thumb))
+      .catch(err => {
+          console.error("Falha ao gerar miniatura:", err);
+          return pending.originalUrl;
+      })
+      .then(url => {
+          setImages(prev => prev.map(img => img.id === pending.id ? { ...img, thumbnailUrl: url } : img));
+      });
+  }, [images]);
+
+  // Content hashes key the AI cache (re-imported photos aren't analyzed again). Computed
+  // in the background, strictly one file at a time: each read holds the whole file in memory.
+  // Photos from projects saved before the cache get theirs here too.
+  useEffect(() => {
+    if (isHashingRef.current) return;
+    const pending = images.find(img => !img.contentHash && !hashJobsRef.current.has(img.id));
+    if (!pending) return;
+    hashJobsRef.current.add(pending.id);
+    isHashingRef.current = true;
+
+    fetch(pending.originalUrl)
+      .then(res => res.blob())
+      .then(hashBlob)
+      .then(contentHash => {
+          setImages(prev => prev.map(img => img.id === pending.id ? { ...img, contentHash } : img));
+      })
+      .catch(err => console.error("Falha ao calcular o hash da foto:", err))
+      .finally(() => {
+          isHashingRef.current = false;
+          setHashWake(w => w + 1);
+      });
+  }, [images, hashWake]);
+
   // --- Render ---
 
   return (
@@ -443,11 +1101,36 @@ export default function App() {
                     Foto Edition Conecta Imóveis
                 </span>
             </div>
-            <button onClick={clearAllPhotos} className="text-xs text-gray-500 hover:text-red-400 flex items-center gap-1 mt-1 transition-colors">
-                <Trash2 size={12} /> Limpar Projeto
-            </button>
+            <div className="flex items-center gap-4 mt-1">
+                <ProjectsPanel
+                    projects={recentProjects}
+                    currentProjectId={project.id}
+                    onOpen={openProject}
+                    onDelete={handleDeleteProject}
+                    onNew={handleNewProject}
+                    onShow={refreshRecentProjects}
+                />
+                <button onClick={clearAllPhotos} className="text-xs text-gray-500 hover:text-red-400 flex items-center gap-1 transition-colors">
+                    <Trash2 size={12} /> Limpar Projeto
+                </button>
+            </div>
         </div>
         
+        <ListingsPanel
+            listings={listings}
+            activeListingId={activeListing.id}
+            images={images}
+            userConfigs={userConfigs}
+            viewImageId={viewImageId}
+            selectedCount={selectedImageIds.size}
+            onSelect={handleSelectListing}
+            onCreate={handleCreateListing}
+            onUpdate={handleUpdateListing}
+            onDelete={handleDeleteListing}
+            onMoveSelection={handleMoveSelection}
+            onOpenFlyer={() => setIsFlyerEditorOpen(true)}
+        />
+
         <div className="flex-1 overflow-hidden relative">
             <Toolbar 
                 adjustments={currentToolbarAdjustments} 
@@ -459,20 +1142,44 @@ export default function App() {
                 onLoadUserConfig={handleLoadUserConfig}
                 onDeleteUserConfig={handleDeleteUserConfig}
 
+                selectedLayerId={selectedLayerId}
+                onSelectLayer={setSelectedLayerId}
                 onLogoUpload={handleLogoUpload}
+                onAddTextLayer={handleAddTextLayer}
+
+                brandFonts={brandFonts}
+                onFontUpload={handleFontUpload}
+                onDeleteFont={handleDeleteFont}
+                onTiledLogoUpload={handleTiledLogoUpload}
+                onRedactionLogoUpload={handleRedactionLogoUpload}
                 onRemoveBackground={handleRemoveBackground}
-                isRemovingBg={isProcessing && processingMsg.includes('Removendo')}
+                isRemovingBg={hasActiveJob('removeBackground', viewImageId, selectedLayerId || undefined)}
+
+                isCropping={isCropping}
+                onToggleCrop={toggleCropping}
+                cropRatio={cropRatio}
+                onCropRatioChange={setCropRatio}
+
+                isEditingGuide={isEditingGuide}
+                onToggleGuide={toggleGuideEditing}
+                onAutoStraighten={handleAutoStraighten}
+                isStraightening={isStraightening}
+
+                isEditingPrivacy={isEditingPrivacy}
+                onTogglePrivacyEditing={togglePrivacyEditing}
+                onRedetectPrivacy={handleRedetectPrivacy}
+                manualRegionCount={viewedImage?.manualRegions?.filter(r => r.mode === 'blur').length ?? 0}
             />
         </div>
 
         <div className="border-t border-white/5 bg-black/20">
              <div className="p-4">
                 <button 
-                    onClick={handleBatchDownload}
-                    disabled={images.length === 0 || isProcessing}
+                    onClick={() => setIsExportDialogOpen(true)}
+                    disabled={listingImages.length === 0 || isProcessing}
                     className="w-full glass-button bg-violet-600/80 hover:bg-violet-500/90 text-white py-3 rounded-lg font-medium flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                    {isProcessing ? 'Processando...' : <><Download size={18} /> Baixar {selectedImageIds.size > 0 ? 'Seleção' : 'Tudo'}</>}
+                    {isProcessing ? 'Processando...' : <><Download size={18} /> Baixar {selectedImageIds.size > 0 ? 'Seleção' : 'Imóvel'}</>}
                 </button>
              </div>
              
@@ -530,12 +1237,19 @@ export default function App() {
                  )}
                  <button 
                     onClick={() => handleAutoEnhance()}
-                    className={`glass-button p-2 rounded-full hover:text-white hover:bg-violet-500/20 ${isProcessing ? 'text-violet-500 animate-pulse' : isQuotaExhausted ? 'text-gray-600 cursor-not-allowed' : 'text-violet-300'}`}
-                    title={isQuotaExhausted ? "IA Pausada (Cota Excedida)" : "Melhoria IA"}
-                    disabled={!viewImageId || isProcessing || isQuotaExhausted}
+                    className={`glass-button p-2 rounded-full hover:text-white hover:bg-violet-500/20 ${isEnhancing ? 'text-violet-500 animate-pulse' : isQuotaExhausted ? 'text-gray-500' : 'text-violet-300'}`}
+                    title={isEnhancing ? "Melhoria IA na fila" : isQuotaExhausted ? "IA Pausada (Cota Excedida) — o pedido entra na fila" : "Melhoria IA"}
+                    disabled={!viewImageId || isEnhancing}
                  >
                     <Wand2 size={20} />
                  </button>
+                 <button
+                    onClick={() => setIsAiSettingsOpen(true)}
+                    className="glass-button p-2 rounded-full text-gray-400 hover:text-white"
+                    title={aiSettings.provider === 'mock' ? "Configurações de IA (simulada)" : "Configurações de IA"}
+                 >
+                    <Settings size={18} />
+                 </button>
              </div>
 
              <div className="h-6 w-px bg-white/10 mx-1"></div>
@@ -559,12 +1273,17 @@ export default function App() {
         <section className="flex-1 relative bg-black/40 overflow-hidden">
             <CanvasPreview 
               image={viewedImage} 
-              onOverlayUpdate={(updates) => {
-                 if (viewedImage) {
-                   const newAdj = { ...viewedImage.adjustments, ...updates };
-                   updateAdjustments(newAdj);
-                 }
-              }}
+              brandFonts={brandFonts}
+              selectedLayerId={selectedLayerId}
+              onSelectLayer={setSelectedLayerId}
+              onLayerChange={handleLayerChange}
+              isCropping={isCropping}
+              cropRatio={cropRatio}
+              onCropChange={handleCropChange}
+              isEditingGuide={isEditingGuide}
+              onGuideChange={handleGuideChange}
+              isEditingPrivacy={isEditingPrivacy}
+              onManualRegionsChange={handleManualRegionsChange}
             />
             
             {/* Presets Button */}
@@ -585,7 +1304,7 @@ export default function App() {
                         {presets.map(p => (
                             <button 
                                 key={p.id} 
-                                onClick={() => updateAdjustments(p.adjustments)}
+                                onClick={() => updateAdjustments(migrateAdjustments(p.adjustments), { label: `Modelo: ${p.name}` })}
                                 className="text-left text-sm px-2 py-1.5 rounded hover:bg-white/10 text-gray-300"
                             >
                                 {p.name}
@@ -595,75 +1314,107 @@ export default function App() {
                 )}
             </div>
             
+            {/* Undo / Redo + History List */}
+            <div className="absolute top-4 right-4 z-30">
+                <HistoryPanel
+                    state={historyState}
+                    onUndo={handleUndo}
+                    onRedo={handleRedo}
+                    onJump={jumpToHistory}
+                />
+            </div>
+            
             {/* Info Badge */}
             <div className="absolute bottom-4 left-4 bg-black/50 backdrop-blur px-3 py-1 rounded-full text-xs text-white/60 pointer-events-none">
                 {selectedImageIds.size} selecionado(s)
             </div>
+
+            {/* Room label, used by the {room} token in export file names */}
+            {viewedImage && (
+                <div className="absolute bottom-4 right-4 z-30 flex items-center gap-2 bg-black/50 backdrop-blur px-3 py-1 rounded-full text-xs text-white/60">
+                    Cômodo
+                    <input
+                        list="room-suggestions"
+                        value={viewedImage.room || ''}
+                        onChange={(e) => handleRoomChange(viewedImage.id, e.target.value)}
+                        placeholder="—"
+                        className="w-28 bg-transparent border-b border-white/20 text-white outline-none"
+                    />
+                    <datalist id="room-suggestions">
+                        {ROOM_SUGGESTIONS.map(room => <option key={room} value={room} />)}
+                    </datalist>
+                </div>
+            )}
         </section>
 
         {/* Bottom Thumbnail Strip */}
-        <section className="h-32 glass-panel border-t border-white/5 flex flex-col">
-            <div className="h-8 flex items-center px-4 border-b border-white/5 justify-between bg-black/20">
-                 <button onClick={selectAll} className="flex items-center gap-2 text-xs text-gray-300 hover:text-white">
-                     {selectedImageIds.size === images.length && images.length > 0 ? <CheckSquare size={14} className="text-violet-400"/> : <Square size={14}/>}
-                     Selecionar Tudo
-                 </button>
-                 <span className="text-xs text-gray-500">{images.length} itens</span>
-            </div>
-
-            <div className="flex-1 flex items-center overflow-x-auto px-4 gap-3 no-scrollbar pt-2">
-                {images.length === 0 && (
-                    <div className="w-full text-center text-sm text-gray-500">
-                        Envie até 50 fotos para começar a edição em massa
-                    </div>
-                )}
-                {images.map((img) => {
-                    const isSelected = selectedImageIds.has(img.id);
-                    const isViewed = viewImageId === img.id;
-                    
-                    return (
-                        <div 
-                            key={img.id}
-                            className={`
-                                relative flex-shrink-0 w-20 h-20 rounded-lg overflow-hidden border-2 transition-all group
-                                ${isViewed ? 'border-violet-500 shadow-[0_0_15px_rgba(139,92,246,0.3)]' : 'border-transparent opacity-90'}
-                                ${isSelected ? 'ring-2 ring-white/50 ring-offset-1 ring-offset-black' : ''}
-                            `}
-                            onClick={() => handleThumbnailClick(img.id)}
-                        >
-                            <img src={img.originalUrl} className="w-full h-full object-cover" alt="thumbnail" />
-                            
-                            {/* Selection Checkbox */}
-                            <div 
-                                onClick={(e) => { e.stopPropagation(); toggleSelection(img.id, true); }}
-                                className="absolute top-1 left-1 z-10 cursor-pointer"
-                            >
-                                {isSelected 
-                                    ? <div className="bg-violet-600 rounded text-white"><CheckSquare size={16}/></div> 
-                                    : <div className="bg-black/50 rounded text-white/70 hover:text-white"><Square size={16}/></div>
-                                }
-                            </div>
-
-                            {/* Privacy Indicator */}
-                            {img.adjustments.privacyBlur && (
-                                <div className="absolute bottom-1 right-1 text-violet-300 bg-black/60 rounded-full p-0.5">
-                                    <div className={`w-2 h-2 rounded-full ${img.privacyRegions ? 'bg-violet-500' : 'bg-yellow-500 animate-pulse'}`}></div>
-                                </div>
-                            )}
-
-                            {/* Filter Overlay indicator */}
-                            {isViewed && (
-                                <div className="absolute inset-0 bg-violet-500/10 pointer-events-none"></div>
-                            )}
-                        </div>
-                    );
-                })}
-            </div>
-        </section>
+        <ThumbnailStrip
+            images={listingImages}
+            selectedImageIds={selectedImageIds}
+            viewImageId={viewImageId}
+            filter={thumbnailFilter}
+            onFilterChange={setThumbnailFilter}
+            onThumbnailClick={handleThumbnailClick}
+            onToggleSelection={(id) => toggleSelection(id, true)}
+            onSelectAll={selectAll}
+            onReorder={handleReorder}
+            aiJobs={aiQueue.jobs}
+            onRetryAiJob={handleRetryAiJob}
+            onCancelAiJob={handleCancelAiJob}
+        />
       </main>
       
-      {/* Overlay Loading State (Only for full blocking actions like Download) */}
-      {isProcessing && (processingMsg.includes('Renderizando') || processingMsg.includes('Melhoria IA') || processingMsg.includes('Removendo')) && (
+      {isExportDialogOpen && (
+        <ExportDialog
+            initialSettings={exportSettings}
+            images={getExportTargets()}
+            userProfiles={userProfiles}
+            onProfilesChange={handleUserProfilesChange}
+            exportMetadata={exportMetadata}
+            onExportMetadataChange={handleExportMetadataChange}
+            fileNaming={fileNaming}
+            onFileNamingChange={handleFileNamingChange}
+            listingCode={activeListing.code}
+            onListingCodeChange={handleListingCodeChange}
+            concurrency={renderConcurrency}
+            onConcurrencyChange={handleRenderConcurrencyChange}
+            onExport={handleBatchDownload}
+            onExportProfiles={handleProfileDownload}
+            onClose={() => setIsExportDialogOpen(false)}
+        />
+      )}
+
+      {isFlyerEditorOpen && (
+        <FlyerEditor
+            listing={activeListing}
+            image={getCoverImage(activeListing, images)}
+            userTemplates={flyerTemplates}
+            onTemplatesChange={handleFlyerTemplatesChange}
+            onTemplateSelect={(id) => handleUpdateListing(activeListing.id, { flyerTemplateId: id })}
+            onDownload={handleFlyerDownload}
+            onClose={() => setIsFlyerEditorOpen(false)}
+        />
+      )}
+
+      {isAiSettingsOpen && (
+        <AiSettingsDialog
+            settings={aiSettings}
+            onChange={handleAiSettingsChange}
+            onClose={() => setIsAiSettingsOpen(false)}
+        />
+      )}
+
+      {/* Batch export progress with per-image status and cancel */}
+      {batchItems && (
+        <BatchProgress
+            items={batchItems}
+            message={processingMsg || 'Renderizando...'}
+            onCancel={() => batchAbortRef.current?.abort()}
+        />
+      )}
+
+      {/* Overlay Loading State (Only for full blocking actions like auto-straighten) */}
+      {isStraightening && !batchItems && (
         <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center flex-col">
             <div className="w-12 h-12 border-4 border-violet-500 border-t-transparent rounded-full animate-spin mb-4"></div>
             <p className="text-violet-200 font-light tracking-wide animate-pulse">{processingMsg || 'Processando...'}</p>
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { AI_PROVIDERS, AI_TASKS, AiProviderId, AiSettings, AiTask, DEFAULT_AI_SETTINGS } from '../services/aiProvider';
+import { AiCacheStats, clearAiCache, getAiCacheStats } from '../services/aiCache';
+import { AI_INPUT_EDGES } from '../services/aiInput';
+import { Database, RotateCcw, Trash2, X } from './ui/Icons';
+
+interface AiSettingsDialogProps {
+  settings: AiSettings;
+  onChange: (settings: AiSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-black/40 border border-white/10 rounded px-2 py-1.5 text-xs text-gray-200 outline-none focus:border-violet-500 disabled:opacity-40";
+
+const AiSettingsDialog: React.FC<AiSettingsDialogProps> = ({ settings, onChange, onClose }) => {
+  const isMock = settings.provider === 'mock';
+  const [cacheStats, setCacheStats] = useState<AiCacheStats | null>(null);
+
+  const refreshCacheStats = () => {
+    getAiCacheStats()
+      .then(setCacheStats)
+      .catch(err => console.error("Falha ao ler o cache de IA:", err));
+  };
+
+  useEffect(refreshCacheStats, []);
+
+  const handleClearCache = () => {
+    clearAiCache()
+      .then(refreshCacheStats)
+      .catch(err => console.error("Falha ao limpar o cache de IA:", err));
+  };
+
+  const setModel = (task: AiTask, model: string) => {
+    onChange({ ...settings, models: { ...settings.models, [task]: model } });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="glass-panel rounded-xl w-full max-w-md flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-white/5 flex justify-between items-center">
+          <h3 className="text-sm font-semibold text-violet-200">Configurações de IA</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={16} /></button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div>
+            <label className="text-xs font-medium text-gray-300 uppercase tracking-wider">Provedor</label>
+            <select
+              value={settings.provider}
+              onChange={(e) => onChange({ ...settings, provider: e.target.value as AiProviderId })}
+              className={`${inputClass} mt-2`}
+            >
+              {AI_PROVIDERS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+            </select>
+            {isMock && (
+              <p className="text-[10px] text-gray-500 mt-2">
+                Respostas simuladas, sem chave nem internet. A mesma foto sempre recebe o mesmo resultado.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="text-xs font-medium text-gray-300 uppercase tracking-wider">Modelo por tarefa</label>
+              <button
+                onClick={() => onChange({ ...settings, models: DEFAULT_AI_SETTINGS.models })}
+                className="text-[10px] text-gray-500 hover:text-white flex items-center gap-1"
+              >
+                <RotateCcw size={10} /> Padrão
+              </button>
+            </div>
+            {AI_TASKS.map(task => (
+              <div key={task.value}>
+                <span className="text-[11px] text-gray-400">{task.label}</span>
+                <input
+                  value={settings.models[task.value]}
+                  onChange={(e) => setModel(task.value, e.target.value)}
+                  disabled={isMock}
+                  placeholder={DEFAULT_AI_SETTINGS.models[task.value]}
+                  className={`${inputClass} mt-1 font-mono`}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="text-xs font-medium text-gray-300 uppercase tracking-wider">Tamanho enviado à IA</label>
+            <select
+              value={settings.maxInputEdge}
+              onChange={(e) => onChange({ ...settings, maxInputEdge: Number(e.target.value) })}
+              className={`${inputClass} mt-2`}
+            >
+              {AI_INPUT_EDGES.map(edge => <option key={edge.value} value={edge.value}>{edge.label}</option>)}
+            </select>
+            <p className="text-[10px] text-gray-500 mt-2">
+              Lado maior das fotos enviadas. Fotos menores gastam menos cota e respondem mais rápido; aumente se rostos pequenos não forem detectados.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="text-xs font-medium text-gray-300 uppercase tracking-wider flex items-center gap-1.5">
+                <Database size={12} /> Cache de resultados
+              </label>
+              <button
+                onClick={handleClearCache}
+                disabled={!cacheStats || cacheStats.entries === 0}
+                className="text-[10px] text-gray-500 hover:text-red-300 flex items-center gap-1 disabled:opacity-40 disabled:hover:text-gray-500"
+              >
+                <Trash2 size={10} /> Limpar
+              </button>
+            </div>
+            <p className="text-[11px] text-gray-400">
+              {cacheStats
+                ? `${cacheStats.entries} resultado(s) salvos · nesta sessão: ${cacheStats.hits} do cache, ${cacheStats.misses} enviados à IA`
+                : 'Carregando...'}
+            </p>
+            <p className="text-[10px] text-gray-500">
+              Melhorias e detecções de privacidade ficam salvas pelo conteúdo da foto. Reimportar a mesma foto não a envia de novo.
+            </p>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-white/5 flex justify-end">
+          <button onClick={onClose} className="bg-violet-600 hover:bg-violet-500 text-white px-4 py-1.5 rounded-lg text-xs font-medium">
+            Fechar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiSettingsDialog;
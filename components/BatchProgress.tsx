@@ -0,0 +1,58 @@
+import React from 'react';
+import { BatchProgressItem } from '../types';
+import { Check, X, AlertCircle } from './ui/Icons';
+
+interface BatchProgressProps {
+  items: BatchProgressItem[];
+  message: string;
+  onCancel: () => void;
+}
+
+const BatchProgress: React.FC<BatchProgressProps> = ({ items, message, onCancel }) => {
+  const completed = items.filter(i => i.status === 'done' || i.status === 'error').length;
+  const percent = items.length > 0 ? Math.round((completed / items.length) * 100) : 0;
+  const isRunning = items.some(i => i.status === 'queued' || i.status === 'rendering');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="glass-panel rounded-xl w-full max-w-md flex flex-col max-h-[80vh]">
+        <div className="p-4 border-b border-white/5">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-sm font-semibold text-violet-200">{message}</h3>
+            <span className="text-xs text-gray-400 font-mono">{completed}/{items.length}</span>
+          </div>
+          <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+            <div className="h-full bg-violet-500 transition-all duration-300" style={{ width: `${percent}%` }}></div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2">
+          {items.map(item => (
+            <div key={item.id} className="flex items-center gap-2 px-2 py-1.5 text-xs" title={item.error}>
+              <span className="w-4 flex items-center justify-center flex-shrink-0">
+                {item.status === 'rendering' && <span className="animate-spin w-3 h-3 border-2 border-violet-400 border-t-transparent rounded-full"></span>}
+                {item.status === 'queued' && <span className="w-2 h-2 rounded-full bg-white/20"></span>}
+                {item.status === 'done' && <Check size={14} className="text-green-400" />}
+                {item.status === 'error' && <AlertCircle size={14} className="text-red-400" />}
+                {item.status === 'cancelled' && <X size={14} className="text-gray-500" />}
+              </span>
+              <span className={`truncate ${item.status === 'cancelled' ? 'text-gray-500 line-through' : 'text-gray-300'}`}>{item.name}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-white/5">
+          <button
+            onClick={onCancel}
+            disabled={!isRunning}
+            className="w-full glass-button py-2 rounded-lg text-xs text-red-300 hover:bg-red-500/10 hover:text-red-200 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Cancelar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchProgress;
@@ -1,116 +1,368 @@
 import React, { useMemo, useRef, useState, useEffect } from 'react';
-import { Adjustments, ImageFile } from '../types';
-import { generateCssFilterString } from '../services/imageUtils';
+import { BoundingBox, BrandFont, CropRect, ImageFile, ManualRegion, OverlayLayer, Point, RedactionShape, RedactionStyle } from '../types';
+import { loadImage, loadLayerSources } from '../services/imageUtils';
+import { LayerBox, LayerSources, RenderResult, prepareSource, renderPipeline } from '../services/renderPipeline';
+import { getImageSources } from '../services/layers';
+import { CropHandle, FULL_CROP, getCenteredCrop, resizeCrop } from '../services/geometry';
+import { DEFAULT_GUIDE, getPerspectiveTransform } from '../services/perspective';
+import { MIN_REGION_SIZE, REDACTION_SHAPES, REDACTION_STYLES, createManualRegion, getRedactionRegions, ignoreDetected, isIgnored, normalizeBox, restoreDetected } from '../services/privacyRegions';
+
+// Long edge of the on-screen preview render
+const PREVIEW_MAX_SIZE = 1600;
 
 interface CanvasPreviewProps {
   image: ImageFile | null;
-  onOverlayUpdate: (updates: Partial<Adjustments>) => void;
+  brandFonts: BrandFont[]; // Redraws with the fallback when one is deleted (no font event for that)
+
+  // Layers: drag to move, corner handle to resize, top handle to rotate
+  selectedLayerId: string | null;
+  onSelectLayer: (id: string | null) => void;
+  onLayerChange: (id: string, patch: Partial<OverlayLayer>) => void;
+
+  // Crop tool
+  isCropping: boolean;
+  cropRatio: number | null;
+  onCropChange: (crop: CropRect | null) => void;
+
+  // Perspective guide tool
+  isEditingGuide: boolean;
+  onGuideChange: (guide: Point[]) => void;
+
+  // Privacy region editor: draw, move and resize blur boxes, ignore detected ones
+  isEditingPrivacy: boolean;
+  onManualRegionsChange: (regions: ManualRegion[]) => void;
 }
 
-const CanvasPreview: React.FC<CanvasPreviewProps> = ({ image, onOverlayUpdate }) => {
+const CanvasPreview: React.FC<CanvasPreviewProps> = ({ image, brandFonts, selectedLayerId, onSelectLayer, onLayerChange, isCropping, cropRatio, onCropChange, isEditingGuide, onGuideChange, isEditingPrivacy, onManualRegionsChange }) => {
   
   const adjustments = image ? image.adjustments : null;
-  const filterStyle = useMemo(() => adjustments ? generateCssFilterString(adjustments) : '', [adjustments]);
   
   const containerRef = useRef<HTMLDivElement>(null);
-  
-  // Interaction State
-  const [interactionMode, setInteractionMode] = useState<'none' | 'move' | 'resize'>('none');
-  const [startPos, setStartPos] = useState({ x: 0, y: 0 });
-  const [startVal, setStartVal] = useState({ scale: 0.2, x: 0.5, y: 0.5 }); // Stores initial scale or pos
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Decoded source image for the viewed photo
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    setSource(null);
+    if (!image) return;
+    let cancelled = false;
+    loadImage(image.originalUrl)
+      .then(img => { if (!cancelled) setSource(img); })
+      .catch(e => console.error("Failed to load preview", e));
+    return () => { cancelled = true; };
+  }, [image?.originalUrl]);
+
+  // Decoded layer images, drawn by the render core. Only reloaded when the set of sources changes.
+  const [layerSources, setLayerSources] = useState<LayerSources>(new Map());
+  const layerSourceKey = adjustments ? getImageSources(adjustments).join('|') : '';
+
+  useEffect(() => {
+    if (!adjustments || !layerSourceKey) {
+      setLayerSources(new Map());
+      return;
+    }
+    let cancelled = false;
+    loadLayerSources(adjustments)
+      .then(sources => { if (!cancelled) setLayerSources(sources); });
+    return () => { cancelled = true; };
+  }, [layerSourceKey]);
+
+  const perspective = useMemo(
+    () => adjustments ? getPerspectiveTransform(adjustments) : null,
+    [adjustments?.perspectiveV, adjustments?.perspectiveH, adjustments?.perspectiveGuide]
+  );
+
+  // Guide points and privacy boxes live on the original photo, so while editing them the
+  // raw photo is shown (no perspective, no geometry) and they line up with it
+  const isEditingOriginal = isEditingGuide || isEditingPrivacy;
+
+  // Perspective-corrected copy at preview size
+  const prepared = useMemo(() => {
+    if (!source) return null;
+    return prepareSource(source, isEditingOriginal ? null : perspective, PREVIEW_MAX_SIZE);
+  }, [source, perspective, isEditingOriginal]);
+
+  const isEditingFrame = isCropping || isEditingOriginal;
+
+  const blurRegions = useMemo(
+    () => image ? getRedactionRegions(image) : [],
+    [image?.privacyRegions, image?.manualRegions, adjustments?.privacyBlur]
+  );
+
+  // Render the full pipeline into the preview canvas (same code path as the export)
+  const [render, setRender] = useState<RenderResult | null>(null);
+
+  // Text is drawn with a fallback font until uploaded fonts finish loading, then redrawn
+  const [fontsVersion, setFontsVersion] = useState(0);
+  useEffect(() => {
+    const handleFontsLoaded = () => setFontsVersion(v => v + 1);
+    document.fonts.addEventListener('loadingdone', handleFontsLoaded);
+    return () => document.fonts.removeEventListener('loadingdone', handleFontsLoaded);
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !prepared || !adjustments) return;
+    try {
+      setRender(renderPipeline(canvas, prepared, adjustments, blurRegions, layerSources, {
+        maxSize: PREVIEW_MAX_SIZE,
+        ignoreCrop: isCropping,
+        neutralGeometry: isEditingOriginal,
+        drawOverlays: !isEditingFrame,
+      }));
+    } catch (e) {
+      console.error("Preview render failed", e);
+    }
+  }, [prepared, adjustments, blurRegions, layerSources, fontsVersion, brandFonts, isCropping, isEditingOriginal, isEditingFrame]);
+
+  const geometry = render?.geometry || null;
+
+  // Picking a ratio preset resets the crop to the largest centered rect
+  const lastRatioRef = useRef(cropRatio);
+  useEffect(() => {
+    if (lastRatioRef.current === cropRatio) return;
+    lastRatioRef.current = cropRatio;
+    if (!isCropping || !geometry || !cropRatio) return;
+    onCropChange(getCenteredCrop(geometry.frameWidth, geometry.frameHeight, cropRatio));
+  }, [cropRatio, isCropping, geometry, onCropChange]);
 
-  // --- Handlers for Move ---
-  const handleDragStart = (e: React.MouseEvent | React.TouchEvent) => {
+  const [cropDrag, setCropDrag] = useState<{ handle: CropHandle; x: number; y: number; start: CropRect } | null>(null);
+
+  const handleCropStart = (handle: CropHandle) => (e: React.MouseEvent | React.TouchEvent) => {
     e.preventDefault();
-    e.stopPropagation(); // Prevent bubbling if needed
-    setInteractionMode('move');
+    e.stopPropagation();
+    const point = 'touches' in e ? e.touches[0] : e;
+    setCropDrag({ handle, x: point.clientX, y: point.clientY, start: adjustments?.crop || FULL_CROP });
   };
 
-  // --- Handlers for Resize ---
-  const handleResizeStart = (e: React.MouseEvent | React.TouchEvent) => {
+  useEffect(() => {
+    if (!cropDrag) return;
+
+    const handleMove = (e: MouseEvent | TouchEvent) => {
+      if (!containerRef.current || !geometry) return;
+      const rect = containerRef.current.getBoundingClientRect();
+      const point = 'touches' in e ? e.touches[0] : e;
+      const dx = (point.clientX - cropDrag.x) / rect.width;
+      const dy = (point.clientY - cropDrag.y) / rect.height;
+      onCropChange(resizeCrop(cropDrag.start, cropDrag.handle, dx, dy, cropRatio, geometry.frameWidth, geometry.frameHeight));
+    };
+    const handleEnd = () => setCropDrag(null);
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleEnd);
+    window.addEventListener('touchmove', handleMove);
+    window.addEventListener('touchend', handleEnd);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleEnd);
+      window.removeEventListener('touchmove', handleMove);
+      window.removeEventListener('touchend', handleEnd);
+    };
+  }, [cropDrag, geometry, cropRatio, onCropChange]);
+
+  // Perspective guide: index of the point being dragged
+  const [guideDrag, setGuideDrag] = useState<number | null>(null);
+  const guide = adjustments?.perspectiveGuide || DEFAULT_GUIDE;
+
+  const handleGuideStart = (index: number) => (e: React.MouseEvent | React.TouchEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    
-    // Store initial mouse Y to calculate delta
-    let clientY;
-    if ('touches' in e) {
-        clientY = e.touches[0].clientY;
-    } else {
-        clientY = (e as MouseEvent).clientY;
-    }
-
-    setStartPos({ x: 0, y: clientY });
-    setStartVal({ 
-        scale: adjustments?.overlayScale || 0.2, 
-        x: 0, 
-        y: 0 
-    });
-    setInteractionMode('resize');
+    setGuideDrag(index);
   };
 
   useEffect(() => {
+    if (guideDrag === null) return;
+
     const handleMove = (e: MouseEvent | TouchEvent) => {
-        if (interactionMode === 'none' || !containerRef.current || !adjustments) return;
-        
-        const container = containerRef.current;
-        const rect = container.getBoundingClientRect();
-        
-        let clientX, clientY;
-        if ('touches' in e) {
-            clientX = e.touches[0].clientX;
-            clientY = e.touches[0].clientY;
-        } else {
-            clientX = (e as MouseEvent).clientX;
-            clientY = (e as MouseEvent).clientY;
-        }
-
-        if (interactionMode === 'move') {
-            // Calculate relative position within the container
-            let x = (clientX - rect.left) / rect.width;
-            let y = (clientY - rect.top) / rect.height;
-
-            // Clamp to 0-1
-            x = Math.max(0, Math.min(1, x));
-            y = Math.max(0, Math.min(1, y));
-
-            onOverlayUpdate({ overlayX: x, overlayY: y });
-        } 
-        else if (interactionMode === 'resize') {
-            // Calculate delta Y from start
-            const deltaY = clientY - startPos.y;
-            // Sensitivity factor: moving 200px = +1.0 scale roughly
-            const scaleChange = -(deltaY / 200); 
-            
-            // New scale = initial scale + change
-            // Note: dragging UP (negative delta) should INCREASE size usually for corner handles if we emulate "pulling out", 
-            // but standard slider logic is Up/Right = increase. 
-            // Let's implement: Drag DOWN/RIGHT = Increase Size.
-            const directionCorrectedScaleChange = (deltaY / 300); // 300px drag = 100% scale change
-            
-            let newScale = startVal.scale + directionCorrectedScaleChange;
-            newScale = Math.max(0.05, Math.min(2.0, newScale)); // Clamp between 5% and 200%
-
-            onOverlayUpdate({ overlayScale: newScale });
-        }
+      if (!containerRef.current) return;
+      const rect = containerRef.current.getBoundingClientRect();
+      const point = 'touches' in e ? e.touches[0] : e;
+      const next = guide.map((p, i) => i === guideDrag ? {
+        x: Math.max(0, Math.min(1, (point.clientX - rect.left) / rect.width)),
+        y: Math.max(0, Math.min(1, (point.clientY - rect.top) / rect.height)),
+      } : p);
+      onGuideChange(next);
+    };
+    const handleEnd = () => setGuideDrag(null);
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleEnd);
+    window.addEventListener('touchmove', handleMove);
+    window.addEventListener('touchend', handleEnd);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleEnd);
+      window.removeEventListener('touchmove', handleMove);
+      window.removeEventListener('touchend', handleEnd);
     };
+  }, [guideDrag, guide, onGuideChange]);
 
-    const handleEnd = () => setInteractionMode('none');
 
-    if (interactionMode !== 'none') {
-        window.addEventListener('mousemove', handleMove);
-        window.addEventListener('mouseup', handleEnd);
-        window.addEventListener('touchmove', handleMove);
-        window.addEventListener('touchend', handleEnd);
-    }
+  // Layer being moved / resized / rotated, with its state when the drag started
+  const [layerDrag, setLayerDrag] = useState<{
+    mode: 'move' | 'resize' | 'rotate';
+    x: number;
+    y: number;
+    start: OverlayLayer;
+    box: LayerBox;
+  } | null>(null);
+
+  const handleLayerStart = (layer: OverlayLayer, box: LayerBox, mode: 'move' | 'resize' | 'rotate') => (e: React.MouseEvent | React.TouchEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onSelectLayer(layer.id);
+    const point = 'touches' in e ? e.touches[0] : e;
+    setLayerDrag({ mode, x: point.clientX, y: point.clientY, start: layer, box });
+  };
+
+  useEffect(() => {
+    if (!layerDrag) return;
+    const { mode, start, box } = layerDrag;
+
+    const handleMove = (e: MouseEvent | TouchEvent) => {
+      if (!containerRef.current) return;
+      const rect = containerRef.current.getBoundingClientRect();
+      const point = 'touches' in e ? e.touches[0] : e;
+      const centerX = rect.left + box.x * rect.width;
+      const centerY = rect.top + box.y * rect.height;
 
+      if (mode === 'move') {
+        // Offsets are in short-edge units, like the margin. The center stays inside the
+        // output, so the layer can always be grabbed again.
+        const shortEdge = Math.min(rect.width, rect.height);
+        const dx = Math.max(rect.left, Math.min(rect.right, centerX + point.clientX - layerDrag.x)) - centerX;
+        const dy = Math.max(rect.top, Math.min(rect.bottom, centerY + point.clientY - layerDrag.y)) - centerY;
+        onLayerChange(start.id, {
+          offsetX: start.offsetX + dx / shortEdge,
+          offsetY: start.offsetY + dy / shortEdge,
+        });
+      } else if (mode === 'resize') {
+        // Scale with the distance to the center, so the corner follows the pointer
+        const startDist = Math.hypot(layerDrag.x - centerX, layerDrag.y - centerY) || 1;
+        const dist = Math.hypot(point.clientX - centerX, point.clientY - centerY);
+        onLayerChange(start.id, { scale: Math.max(0.01, Math.min(2, start.scale * (dist / startDist))) });
+      } else {
+        // Handle sits above the center: pointing straight up is 0°
+        const angle = Math.atan2(point.clientY - centerY, point.clientX - centerX) * 180 / Math.PI + 90;
+        let rotation = Math.round(((angle + 540) % 360) - 180);
+        if (Math.abs(rotation % 90) < 3) rotation = Math.round(rotation / 90) * 90; // Snap to right angles
+        onLayerChange(start.id, { rotation });
+      }
+    };
+    const handleEnd = () => setLayerDrag(null);
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleEnd);
+    window.addEventListener('touchmove', handleMove);
+    window.addEventListener('touchend', handleEnd);
     return () => {
-        window.removeEventListener('mousemove', handleMove);
-        window.removeEventListener('mouseup', handleEnd);
-        window.removeEventListener('touchmove', handleMove);
-        window.removeEventListener('touchend', handleEnd);
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleEnd);
+      window.removeEventListener('touchmove', handleMove);
+      window.removeEventListener('touchend', handleEnd);
+    };
+  }, [layerDrag, onLayerChange]);
+
+  // Privacy editor. A drag works on a copy of the manual regions taken when it started;
+  // nothing is saved until the pointer moves, so a click only selects.
+  const manualRegions = image?.manualRegions || [];
+  const detectedRegions = adjustments?.privacyBlur ? image?.privacyRegions || [] : [];
+  const [selectedRegion, setSelectedRegion] = useState<string | null>(null); // Manual id or "detected:<index>"
+  const [regionDrag, setRegionDrag] = useState<{
+    mode: 'move' | 'resize';
+    x: number;
+    y: number;
+    start: ManualRegion;
+    regions: ManualRegion[];   // Including `start`
+  } | null>(null);
+
+  useEffect(() => { if (!isEditingPrivacy) setSelectedRegion(null); }, [isEditingPrivacy]);
+
+  const toRegionPoint = (clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(1000, (clientX - rect.left) / rect.width * 1000)),
+      y: Math.max(0, Math.min(1000, (clientY - rect.top) / rect.height * 1000)),
+    };
+  };
+
+  // Empty area: draw a new box from the pointer
+  const handleRegionDraw = (e: React.MouseEvent | React.TouchEvent) => {
+    e.preventDefault();
+    const point = 'touches' in e ? e.touches[0] : e;
+    const p = toRegionPoint(point.clientX, point.clientY);
+    const region = createManualRegion({ xmin: p.x, ymin: p.y, xmax: p.x, ymax: p.y });
+    setSelectedRegion(null);
+    setRegionDrag({ mode: 'resize', x: point.clientX, y: point.clientY, start: region, regions: [...manualRegions, region] });
+  };
+
+  const handleManualStart = (region: ManualRegion, mode: 'move' | 'resize') => (e: React.MouseEvent | React.TouchEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const point = 'touches' in e ? e.touches[0] : e;
+    setSelectedRegion(region.id);
+    setRegionDrag({ mode, x: point.clientX, y: point.clientY, start: region, regions: manualRegions });
+  };
+
+  // Editing a detected box turns it into a manual one; the detection is ignored from then on
+  const handleDetectedStart = (box: BoundingBox, index: number, mode: 'move' | 'resize') => (e: React.MouseEvent | React.TouchEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const point = 'touches' in e ? e.touches[0] : e;
+    const region = createManualRegion(box);
+    setSelectedRegion(`detected:${index}`);
+    setRegionDrag({ mode, x: point.clientX, y: point.clientY, start: region, regions: [...ignoreDetected(manualRegions, box), region] });
+  };
+
+  useEffect(() => {
+    if (!regionDrag) return;
+    const { mode, start, regions } = regionDrag;
+    let lastBox: BoundingBox | null = null;
+
+    const handleMove = (e: MouseEvent | TouchEvent) => {
+      if (!containerRef.current) return;
+      const rect = containerRef.current.getBoundingClientRect();
+      const point = 'touches' in e ? e.touches[0] : e;
+      const dx = (point.clientX - regionDrag.x) / rect.width * 1000;
+      const dy = (point.clientY - regionDrag.y) / rect.height * 1000;
+      const { xmin, ymin, xmax, ymax } = start.box;
+
+      // Spread first so a converted detection keeps its label (faces stay elliptical)
+      let box: BoundingBox;
+      if (mode === 'move') {
+        // Keeps the size: shifted back inside when pushed past an edge
+        const sx = Math.max(-xmin, Math.min(1000 - xmax, dx));
+        const sy = Math.max(-ymin, Math.min(1000 - ymax, dy));
+        box = { ...start.box, xmin: xmin + sx, ymin: ymin + sy, xmax: xmax + sx, ymax: ymax + sy };
+      } else {
+        box = { ...start.box, ...normalizeBox({ xmin, ymin, xmax: xmax + dx, ymax: ymax + dy }) };
+      }
+      lastBox = box;
+      setSelectedRegion(start.id);
+      onManualRegionsChange(regions.map(r => r.id === start.id ? { ...r, box } : r));
     };
-  }, [interactionMode, adjustments, onOverlayUpdate, startPos, startVal]);
 
+    const handleEnd = () => {
+      setRegionDrag(null);
+      // Drop boxes too small to matter (a click on the empty area, a collapsed resize)
+      if (lastBox && (lastBox.xmax - lastBox.xmin < MIN_REGION_SIZE || lastBox.ymax - lastBox.ymin < MIN_REGION_SIZE)) {
+        onManualRegionsChange(regions.filter(r => r.id !== start.id));
+        setSelectedRegion(null);
+      }
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleEnd);
+    window.addEventListener('touchmove', handleMove);
+    window.addEventListener('touchend', handleEnd);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleEnd);
+      window.removeEventListener('touchmove', handleMove);
+      window.removeEventListener('touchend', handleEnd);
+    };
+  }, [regionDrag, onManualRegionsChange]);
 
   if (!image || !adjustments) {
     return (
@@ -130,35 +382,12 @@ const CanvasPreview: React.FC<CanvasPreviewProps> = ({ image, onOverlayUpdate })
         
         {/* Container for Image + Overlays */}
         <div ref={containerRef} className="relative inline-block">
-          {/* Main Image with CSS Filters */}
-          <img
-            src={image.originalUrl}
-            alt="Preview"
-            className="max-w-full max-h-[70vh] object-contain transition-all duration-100 ease-out block"
-            style={{ filter: filterStyle }}
-            draggable={false}
+          {/* Rendered Image: every adjustment, privacy blur and overlay is drawn by the render core */}
+          <canvas
+            ref={canvasRef}
+            className="max-w-full max-h-[70vh] object-contain block"
           />
 
-          {/* Privacy Blur Overlays */}
-          {adjustments.privacyBlur && image.privacyRegions && image.privacyRegions.map((box, idx) => (
-             <div 
-               key={idx}
-               className="absolute bg-white/10 backdrop-blur-lg shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/20"
-               style={{
-                 top: `${box.ymin / 10}%`,
-                 left: `${box.xmin / 10}%`,
-                 height: `${(box.ymax - box.ymin) / 10}%`,
-                 width: `${(box.xmax - box.xmin) / 10}%`,
-                 zIndex: 10
-               }}
-             >
-                {/* Optional icon inside blur to indicate protection */}
-                <div className="w-full h-full flex items-center justify-center opacity-30">
-                    <svg width="30%" height="30%" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"/></svg>
-                </div>
-             </div>
-          ))}
-
           {/* Loading state indicator if blur is on */}
           {adjustments.privacyBlur && (!image.privacyRegions) && (
              <div className="absolute top-4 left-1/2 transform -translate-x-1/2 flex items-center gap-2 bg-black/70 px-3 py-1.5 rounded-full text-xs text-violet-300 z-50 border border-violet-500/30 shadow-lg">
@@ -175,54 +404,208 @@ const CanvasPreview: React.FC<CanvasPreviewProps> = ({ image, onOverlayUpdate })
               </div>
           )}
 
-          {/* Warmth Overlay */}
-          {adjustments.warmth > 0 && (
-             <div 
-               className="absolute inset-0 pointer-events-none mix-blend-overlay bg-orange-500"
-               style={{ opacity: adjustments.warmth / 500 }}
-             />
-          )}
+          {/* Crop Editor: dimmed outside, rule of thirds, corner handles */}
+          {isCropping && (() => {
+              const crop = adjustments.crop || FULL_CROP;
+              return (
+                <div className="absolute inset-0 overflow-hidden z-40">
+                  <div
+                    className="absolute border-2 border-white cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                    style={{
+                      left: `${crop.x * 100}%`,
+                      top: `${crop.y * 100}%`,
+                      width: `${crop.width * 100}%`,
+                      height: `${crop.height * 100}%`,
+                    }}
+                    onMouseDown={handleCropStart('move')}
+                    onTouchStart={handleCropStart('move')}
+                  >
+                    <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3">
+                      {Array.from({ length: 9 }).map((_, i) => <div key={i} className="border border-white/20"></div>)}
+                    </div>
+                    {(['nw', 'ne', 'sw', 'se'] as CropHandle[]).map(handle => (
+                      <div
+                        key={handle}
+                        className={`absolute w-4 h-4 bg-violet-500 border-2 border-white rounded-full shadow-lg
+                          ${handle.includes('n') ? '-top-2' : '-bottom-2'} ${handle.includes('w') ? '-left-2' : '-right-2'}
+                          ${handle === 'nw' || handle === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+                        onMouseDown={handleCropStart(handle)}
+                        onTouchStart={handleCropStart(handle)}
+                      ></div>
+                    ))}
+                  </div>
+                </div>
+              );
+          })()}
 
-          {/* Draggable Element / Watermark Overlay */}
-          {adjustments.overlayImage && (
-              <div 
-                className={`absolute transform -translate-x-1/2 -translate-y-1/2 group/overlay ${interactionMode !== 'none' ? 'cursor-grabbing' : 'cursor-grab'}`}
-                style={{
-                    left: `${(adjustments.overlayX || 0.5) * 100}%`,
-                    top: `${(adjustments.overlayY || 0.5) * 100}%`,
-                    width: `${(adjustments.overlayScale || 0.2) * 100}%`, // Width relative to container
-                    opacity: adjustments.overlayOpacity,
-                    zIndex: 20
-                }}
-                onMouseDown={handleDragStart}
-                onTouchStart={handleDragStart}
-              >
-                  {/* The Image */}
-                  <img 
-                    src={adjustments.overlayImage} 
-                    alt="overlay" 
-                    className="w-full h-auto pointer-events-none drop-shadow-lg select-none"
-                    draggable={false}
-                  />
-                  
-                  {/* Bounding Box (Visible on hover or drag) */}
-                  <div className={`absolute inset-0 border-2 border-white/40 rounded transition-opacity ${interactionMode !== 'none' ? 'opacity-100' : 'opacity-0 group-hover/overlay:opacity-100'}`}></div>
-
-                  {/* Resize Handle (Bottom Right) */}
-                  <div 
-                    className={`absolute -bottom-1 -right-1 w-4 h-4 bg-violet-500 border-2 border-white rounded-full cursor-nwse-resize shadow-lg z-30 transition-opacity ${interactionMode !== 'none' ? 'opacity-100 scale-125' : 'opacity-0 group-hover/overlay:opacity-100'}`}
-                    onMouseDown={handleResizeStart}
-                    onTouchStart={handleResizeStart}
+          {/* Perspective Guide: two lines that will be made parallel */}
+          {isEditingGuide && (
+              <div className="absolute inset-0 z-40">
+                <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                  {[0, 2].map(i => (
+                    <line
+                      key={i}
+                      x1={guide[i].x * 100} y1={guide[i].y * 100}
+                      x2={guide[i + 1].x * 100} y2={guide[i + 1].y * 100}
+                      stroke="#a78bfa" strokeWidth="2" vectorEffect="non-scaling-stroke" strokeDasharray="6 4"
+                    />
+                  ))}
+                </svg>
+                {guide.map((p, i) => (
+                  <div
+                    key={i}
+                    className="absolute w-5 h-5 -ml-2.5 -mt-2.5 bg-violet-500 border-2 border-white rounded-full shadow-lg cursor-move"
+                    style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+                    onMouseDown={handleGuideStart(i)}
+                    onTouchStart={handleGuideStart(i)}
                   ></div>
+                ))}
+                <div className="absolute bottom-3 left-1/2 -translate-x-1/2 bg-black/70 px-3 py-1.5 rounded-full text-xs text-violet-200 pointer-events-none whitespace-nowrap">
+                  Alinhe cada linha com uma parede ou coluna vertical
+                </div>
               </div>
           )}
+
+          {/* Privacy Editor: detected boxes (red, dashed when ignored) and manual boxes (violet) */}
+          {isEditingPrivacy && (() => {
+              const boxStyle = (box: BoundingBox) => ({
+                left: `${box.xmin / 10}%`,
+                top: `${box.ymin / 10}%`,
+                width: `${(box.xmax - box.xmin) / 10}%`,
+                height: `${(box.ymax - box.ymin) / 10}%`,
+              });
+              // Controls above the selected box; they must not start a drag
+              const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+              const action = (label: string, onClick: () => void) => (
+                <button
+                  className="bg-black/80 hover:bg-black px-2 py-0.5 rounded text-[10px] text-white whitespace-nowrap"
+                  onClick={(e) => { e.stopPropagation(); onClick(); }}
+                >{label}</button>
+              );
+              const actions = (children: React.ReactNode) => (
+                <div className="absolute -top-7 left-0 flex gap-1" onMouseDown={stop} onTouchStart={stop}>{children}</div>
+              );
+              const selectClass = "bg-black/80 rounded text-[10px] text-white px-1 py-0.5 outline-none";
+              const updateRegion = (id: string, patch: Partial<ManualRegion>) =>
+                onManualRegionsChange(manualRegions.map(r => r.id === id ? { ...r, ...patch } : r));
+              return (
+                <div className="absolute inset-0 z-40 cursor-crosshair" onMouseDown={handleRegionDraw} onTouchStart={handleRegionDraw}>
+                  {detectedRegions.map((box, i) => {
+                    const key = `detected:${i}`;
+                    const ignored = isIgnored(box, manualRegions);
+                    return (
+                      <div
+                        key={key}
+                        className={`absolute border-2 ${ignored ? 'border-dashed border-white/50' : 'border-red-400 bg-red-500/10 cursor-move'}`}
+                        style={boxStyle(box)}
+                        onMouseDown={ignored ? (e) => { e.stopPropagation(); setSelectedRegion(key); } : handleDetectedStart(box, i, 'move')}
+                        onTouchStart={ignored ? (e) => { e.stopPropagation(); setSelectedRegion(key); } : handleDetectedStart(box, i, 'move')}
+                      >
+                        {selectedRegion === key && actions(ignored
+                          ? action('Reativar', () => onManualRegionsChange(restoreDetected(manualRegions, box)))
+                          : action('Ignorar', () => { onManualRegionsChange(ignoreDetected(manualRegions, box)); setSelectedRegion(null); })
+                        )}
+                        {selectedRegion === key && !ignored && (
+                          <div
+                            className="absolute -bottom-2 -right-2 w-4 h-4 bg-red-500 border-2 border-white rounded-full cursor-nwse-resize shadow-lg"
+                            onMouseDown={handleDetectedStart(box, i, 'resize')}
+                            onTouchStart={handleDetectedStart(box, i, 'resize')}
+                          ></div>
+                        )}
+                      </div>
+                    );
+                  })}
+
+                  {manualRegions.filter(r => r.mode === 'blur').map(region => (
+                    <div
+                      key={region.id}
+                      className="absolute border-2 border-violet-400 bg-violet-500/10 cursor-move"
+                      style={boxStyle(region.box)}
+                      onMouseDown={handleManualStart(region, 'move')}
+                      onTouchStart={handleManualStart(region, 'move')}
+                    >
+                      {selectedRegion === region.id && (
+                        <>
+                          {actions(<>
+                            {/* Empty value follows the photo's redaction settings */}
+                            <select
+                              value={region.style || ''}
+                              onChange={(e) => updateRegion(region.id, { style: (e.target.value || undefined) as RedactionStyle | undefined })}
+                              className={selectClass}
+                            >
+                              <option value="">Estilo da foto</option>
+                              {REDACTION_STYLES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                            </select>
+                            <select
+                              value={region.shape || ''}
+                              onChange={(e) => updateRegion(region.id, { shape: (e.target.value || undefined) as RedactionShape | undefined })}
+                              className={selectClass}
+                            >
+                              <option value="">Forma da foto</option>
+                              {REDACTION_SHAPES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                            </select>
+                            {action('Excluir', () => { onManualRegionsChange(manualRegions.filter(r => r.id !== region.id)); setSelectedRegion(null); })}
+                          </>)}
+                          <div
+                            className="absolute -bottom-2 -right-2 w-4 h-4 bg-violet-500 border-2 border-white rounded-full cursor-nwse-resize shadow-lg"
+                            onMouseDown={handleManualStart(region, 'resize')}
+                            onTouchStart={handleManualStart(region, 'resize')}
+                          ></div>
+                        </>
+                      )}
+                    </div>
+                  ))}
+
+                  <div className="absolute bottom-3 left-1/2 -translate-x-1/2 bg-black/70 px-3 py-1.5 rounded-full text-xs text-violet-200 pointer-events-none whitespace-nowrap">
+                    Arraste para desenhar uma área · clique numa área para editar
+                  </div>
+                </div>
+              );
+          })()}
+
+          {/* Layer handles: the canvas draws the layers, these boxes only take the pointer */}
+          {!isEditingFrame && render?.layers.map(box => {
+              const layer = adjustments.layers.find(l => l.id === box.id);
+              if (!layer) return null;
+              const isSelected = layer.id === selectedLayerId;
+              return (
+                <div
+                  key={box.id}
+                  className={`absolute group/layer ${layerDrag ? 'cursor-grabbing' : 'cursor-grab'}`}
+                  style={{
+                    left: `${box.x * 100}%`,
+                    top: `${box.y * 100}%`,
+                    width: `${box.width * 100}%`,
+                    height: `${box.height * 100}%`,
+                    transform: `translate(-50%, -50%) rotate(${box.rotation}deg)`,
+                    zIndex: isSelected ? 25 : 20,
+                  }}
+                  onMouseDown={handleLayerStart(layer, box, 'move')}
+                  onTouchStart={handleLayerStart(layer, box, 'move')}
+                >
+                  <div className={`absolute inset-0 border-2 rounded transition-opacity ${isSelected ? 'border-violet-400 opacity-100' : 'border-white/40 opacity-0 group-hover/layer:opacity-100'}`}></div>
+
+                  {isSelected && (
+                    <>
+                      {/* Rotate Handle (Top) */}
+                      <div className="absolute left-1/2 -top-6 w-px h-6 bg-violet-400 pointer-events-none"></div>
+                      <div
+                        className="absolute left-1/2 -top-8 -ml-2 w-4 h-4 bg-white border-2 border-violet-500 rounded-full cursor-alias shadow-lg"
+                        onMouseDown={handleLayerStart(layer, box, 'rotate')}
+                        onTouchStart={handleLayerStart(layer, box, 'rotate')}
+                      ></div>
+                      {/* Resize Handle (Bottom Right) */}
+                      <div
+                        className="absolute -bottom-2 -right-2 w-4 h-4 bg-violet-500 border-2 border-white rounded-full cursor-nwse-resize shadow-lg"
+                        onMouseDown={handleLayerStart(layer, box, 'resize')}
+                        onTouchStart={handleLayerStart(layer, box, 'resize')}
+                      ></div>
+                    </>
+                  )}
+                </div>
+              );
+          })}
           
-          {/* Text Watermark Overlay Preview (Legacy) */}
-          {adjustments.watermark && (
-              <div className="absolute bottom-4 right-4 text-white/70 font-bold text-xl pointer-events-none drop-shadow-md">
-                  {adjustments.watermark}
-              </div>
-          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,437 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ExportMetadata, ExportProfile, ExportSettings, FileNamingSettings, ImageFile, ProfileValidation } from '../types';
+import { EXPORT_FORMATS, LONG_EDGE_PRESETS, getFormatInfo, isFormatSupported } from '../services/exportEncoder';
+import { BUILT_IN_PROFILES, validateProfile } from '../services/exportProfiles';
+import { FILE_NAME_TOKENS, formatFileName, parseCaptureDate } from '../services/fileNaming';
+import Slider from './ui/Slider';
+import { AlertCircle, Check, Download, Save, Trash2, X } from './ui/Icons';
+
+interface ExportDialogProps {
+  initialSettings: ExportSettings;
+  images: ImageFile[];
+  userProfiles: ExportProfile[];
+  onProfilesChange: (profiles: ExportProfile[]) => void;
+  exportMetadata: ExportMetadata;
+  onExportMetadataChange: (metadata: ExportMetadata) => void;
+  fileNaming: FileNamingSettings;
+  onFileNamingChange: (naming: FileNamingSettings) => void;
+  listingCode: string;
+  onListingCodeChange: (code: string) => void;
+  concurrency: number;
+  onConcurrencyChange: (value: number) => void;
+  onExport: (settings: ExportSettings) => void;
+  onExportProfiles: (profiles: ExportProfile[]) => void;
+  onClose: () => void;
+}
+
+const ASPECT_OPTIONS: { label: string; value: number | null }[] = [
+  { label: 'Manter', value: null },
+  { label: '4:3', value: 4 / 3 },
+  { label: '3:2', value: 3 / 2 },
+  { label: '16:9', value: 16 / 9 },
+  { label: '1:1', value: 1 },
+  { label: '4:5', value: 4 / 5 },
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  initialSettings, images, userProfiles, onProfilesChange, exportMetadata, onExportMetadataChange, fileNaming, onFileNamingChange, listingCode, onListingCodeChange, concurrency, onConcurrencyChange, onExport, onExportProfiles, onClose
+}) => {
+  const [tab, setTab] = useState<'manual' | 'profiles'>('manual');
+  const [settings, setSettings] = useState<ExportSettings>(initialSettings);
+  const [selectedProfileIds, setSelectedProfileIds] = useState<Set<string>>(new Set());
+  const [validations, setValidations] = useState<Record<string, ProfileValidation>>({});
+  const [isValidating, setIsValidating] = useState(false);
+
+  const supported = useMemo(() => new Set(EXPORT_FORMATS.filter(f => isFormatSupported(f.value)).map(f => f.value)), []);
+  const profiles = useMemo(() => [...BUILT_IN_PROFILES, ...userProfiles], [userProfiles]);
+  const isLossy = getFormatInfo(settings.format).lossy;
+
+  const update = (patch: Partial<ExportSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  // Validate newly checked profiles against the current selection
+  useEffect(() => {
+    const pending = profiles.filter(p => selectedProfileIds.has(p.id) && !validations[p.id]);
+    if (pending.length === 0) return;
+    let cancelled = false;
+    setIsValidating(true);
+    Promise.all(pending.map(p => validateProfile(images, p))).then(results => {
+      if (cancelled) return;
+      setValidations(prev => ({ ...prev, ...Object.fromEntries(results.map(r => [r.profileId, r])) }));
+      setIsValidating(false);
+    });
+    return () => { cancelled = true; };
+  }, [selectedProfileIds, profiles, images, validations]);
+
+  const toggleProfile = (id: string) => {
+    setSelectedProfileIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const saveAsProfile = () => {
+    const name = prompt("Nome do perfil de exportação:");
+    if (!name) return;
+    const profile: ExportProfile = {
+      id: crypto.randomUUID(),
+      name,
+      settings,
+      minWidth: null,
+      minHeight: null,
+      maxPhotos: null,
+      fileNameTemplate: fileNaming.template,
+    };
+    onProfilesChange([...userProfiles, profile]);
+    setTab('profiles');
+  };
+
+  const updateProfile = (id: string, patch: Partial<ExportProfile>) => {
+    onProfilesChange(userProfiles.map(p => p.id === id ? { ...p, ...patch } : p));
+    setValidations(prev => {
+      const { [id]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const deleteProfile = (id: string) => {
+    onProfilesChange(userProfiles.filter(p => p.id !== id));
+    setSelectedProfileIds(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+  };
+
+  const selectedProfiles = profiles.filter(p => selectedProfileIds.has(p.id));
+  const hasViolations = selectedProfiles.some(p => {
+    const v = validations[p.id];
+    return v && (v.errors.length > 0 || v.photos.length > 0);
+  });
+
+  const first = images[0];
+  const namePreview = first && formatFileName(fileNaming.template, {
+    listingCode,
+    seq: 1,
+    room: first.room,
+    original: first.name,
+    date: parseCaptureDate(first.metadata?.captureDate),
+  });
+
+  const numberInput = (value: number | null, onChange: (v: number | null) => void, placeholder: string) => (
+    <input
+      type="number"
+      min={0}
+      value={value ?? ''}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value ? Number(e.target.value) : null)}
+      className="w-full bg-black/40 border border-white/10 rounded px-1.5 py-0.5 text-[11px] text-gray-200 outline-none"
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="glass-panel rounded-xl w-full max-w-md flex flex-col max-h-[85vh]">
+        <div className="p-4 border-b border-white/5 flex justify-between items-center">
+          <h3 className="text-sm font-semibold text-violet-200">Exportar {images.length} foto(s)</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={16} /></button>
+        </div>
+
+        <div className="flex border-b border-white/5 text-xs">
+          {(['manual', 'profiles'] as const).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`flex-1 py-2 ${tab === t ? 'text-white border-b-2 border-violet-500' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {t === 'manual' ? 'Manual' : 'Perfis de Portal'}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'manual' ? (
+          <div className="p-4 space-y-4 overflow-y-auto">
+            <div>
+              <label className="text-xs font-medium text-gray-300 uppercase tracking-wider">Formato</label>
+              <div className="grid grid-cols-4 gap-1 mt-2">
+                {EXPORT_FORMATS.map(f => (
+                  <button
+                    key={f.value}
+                    onClick={() => update({ format: f.value })}
+                    disabled={!supported.has(f.value)}
+                    title={supported.has(f.value) ? undefined : 'Não suportado por este navegador'}
+                    className={`py-1.5 rounded text-xs border transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+                      settings.format === f.value ? 'bg-violet-600/40 border-violet-500 text-white' : 'border-white/10 text-gray-400 hover:bg-white/5'
+                    }`}
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+              {settings.format !== 'png' && (
+                <label className="mt-2 flex items-center gap-2 text-[11px] text-gray-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.keepTransparency}
+                    onChange={(e) => update({ keepTransparency: e.target.checked })}
+                    className="accent-violet-500"
+                  />
+                  Salvar como PNG quando houver transparência
+                </label>
+              )}
+            </div>
+
+            <label className="flex items-center justify-between text-xs text-gray-300">
+              <span className="font-medium uppercase tracking-wider">Lado maior</span>
+              <select
+                value={settings.maxLongEdge ?? ''}
+                onChange={(e) => update({ maxLongEdge: e.target.value ? Number(e.target.value) : null })}
+                className="bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-300 outline-none"
+              >
+                {LONG_EDGE_PRESETS.map(p => <option key={p.label} value={p.value ?? ''}>{p.label}</option>)}
+              </select>
+            </label>
+
+            <div>
+              <label className="flex items-center justify-between text-xs text-gray-300">
+                <span className="font-medium uppercase tracking-wider">Proporção</span>
+                <select
+                  value={ASPECT_OPTIONS.findIndex(o => o.value === settings.aspectRatio)}
+                  onChange={(e) => update({ aspectRatio: ASPECT_OPTIONS[Number(e.target.value)].value })}
+                  className="bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-300 outline-none"
+                >
+                  {ASPECT_OPTIONS.map((o, i) => <option key={o.label} value={i}>{o.label}</option>)}
+                </select>
+              </label>
+              {settings.aspectRatio && (
+                <div className="mt-2 flex items-center gap-2 text-[11px] text-gray-400">
+                  {(['crop', 'pad'] as const).map(fit => (
+                    <button
+                      key={fit}
+                      onClick={() => update({ fit })}
+                      className={`px-2 py-1 rounded border ${settings.fit === fit ? 'bg-violet-600/40 border-violet-500 text-white' : 'border-white/10 hover:bg-white/5'}`}
+                    >
+                      {fit === 'crop' ? 'Recortar' : 'Preencher'}
+                    </button>
+                  ))}
+                  {settings.fit === 'pad' && (
+                    <input
+                      type="color"
+                      value={settings.padColor}
+                      onChange={(e) => update({ padColor: e.target.value })}
+                      className="w-6 h-6 bg-transparent border-0 cursor-pointer"
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+
+            {isLossy && (
+              <>
+                <Slider
+                  label="Qualidade"
+                  value={Math.round(settings.quality * 100)}
+                  min={30}
+                  max={100}
+                  onChange={(v) => update({ quality: v / 100 })}
+                  resetValue={90}
+                />
+                <div>
+                  <label className="flex items-center gap-2 text-[11px] text-gray-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.targetKB !== null}
+                      onChange={(e) => update({ targetKB: e.target.checked ? 500 : null })}
+                      className="accent-violet-500"
+                    />
+                    Limitar tamanho do arquivo
+                  </label>
+                  {settings.targetKB !== null && (
+                    <div className="mt-2 flex items-center gap-2 text-xs text-gray-400">
+                      Máx.
+                      <input
+                        type="number"
+                        min={20}
+                        step={50}
+                        value={settings.targetKB}
+                        onChange={(e) => update({ targetKB: Math.max(20, Number(e.target.value) || 20) })}
+                        className="w-20 bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200 outline-none"
+                      />
+                      KB por foto
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-gray-300 uppercase tracking-wider">Nomes dos arquivos</label>
+              <input
+                value={listingCode}
+                onChange={(e) => onListingCodeChange(e.target.value)}
+                placeholder="Código do imóvel"
+                className="w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-[11px] text-gray-200 outline-none"
+              />
+              <input
+                value={fileNaming.template}
+                onChange={(e) => onFileNamingChange({ ...fileNaming, template: e.target.value })}
+                className="w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-[11px] text-gray-200 font-mono outline-none"
+              />
+              <div className="flex flex-wrap gap-1">
+                {FILE_NAME_TOKENS.map(t => (
+                  <button
+                    key={t.token}
+                    onClick={() => onFileNamingChange({ ...fileNaming, template: fileNaming.template + t.token })}
+                    title={t.description}
+                    className="px-1.5 py-0.5 rounded bg-white/5 hover:bg-white/10 text-[10px] text-gray-400 font-mono"
+                  >
+                    {t.token}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-[11px] text-gray-400">
+                ZIP
+                <input
+                  value={fileNaming.zipName}
+                  onChange={(e) => onFileNamingChange({ ...fileNaming, zipName: e.target.value })}
+                  className="flex-1 bg-black/40 border border-white/10 rounded px-2 py-1 text-[11px] text-gray-200 font-mono outline-none"
+                />
+                .zip
+              </label>
+              {namePreview && <p className="text-[10px] text-gray-500 truncate">Ex.: {namePreview}</p>}
+            </div>
+
+            <button
+              onClick={saveAsProfile}
+              className="w-full glass-button py-1.5 rounded text-[11px] text-gray-300 flex items-center justify-center gap-1"
+            >
+              <Save size={12} /> Salvar como perfil
+            </button>
+          </div>
+        ) : (
+          <div className="p-2 overflow-y-auto flex-1">
+            {profiles.map(profile => {
+              const validation = validations[profile.id];
+              const isSelected = selectedProfileIds.has(profile.id);
+              return (
+                <div key={profile.id} className="p-2 rounded-lg hover:bg-white/5">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      onChange={() => toggleProfile(profile.id)}
+                      className="accent-violet-500"
+                    />
+                    <span className="flex-1 text-xs text-gray-200 truncate">{profile.name}</span>
+                    <span className="text-[10px] text-gray-500 font-mono">
+                      {getFormatInfo(profile.settings.format).label} {profile.settings.maxLongEdge ? `${profile.settings.maxLongEdge}px` : ''}
+                    </span>
+                    {!profile.builtIn && (
+                      <button onClick={() => deleteProfile(profile.id)} className="text-gray-500 hover:text-red-400">
+                        <Trash2 size={12} />
+                      </button>
+                    )}
+                  </div>
+
+                  {!profile.builtIn && isSelected && (
+                    <div className="grid grid-cols-3 gap-1 mt-2 pl-5 text-[10px] text-gray-500">
+                      <label>Larg. mín.{numberInput(profile.minWidth, v => updateProfile(profile.id, { minWidth: v }), '—')}</label>
+                      <label>Alt. mín.{numberInput(profile.minHeight, v => updateProfile(profile.id, { minHeight: v }), '—')}</label>
+                      <label>Máx. fotos{numberInput(profile.maxPhotos, v => updateProfile(profile.id, { maxPhotos: v }), '—')}</label>
+                      <label className="col-span-3">
+                        Nome dos arquivos
+                        <input
+                          value={profile.fileNameTemplate}
+                          onChange={(e) => updateProfile(profile.id, { fileNameTemplate: e.target.value })}
+                          className="w-full bg-black/40 border border-white/10 rounded px-1.5 py-0.5 text-[11px] text-gray-200 outline-none"
+                        />
+                      </label>
+                    </div>
+                  )}
+
+                  {isSelected && validation && (
+                    <div className="mt-1 pl-5 space-y-0.5">
+                      {validation.errors.length === 0 && validation.photos.length === 0 && (
+                        <div className="flex items-center gap-1 text-[10px] text-green-400"><Check size={10} /> Seleção atende ao perfil</div>
+                      )}
+                      {validation.errors.map(error => (
+                        <div key={error} className="flex items-center gap-1 text-[10px] text-red-300"><AlertCircle size={10} /> {error}</div>
+                      ))}
+                      {validation.photos.map(photo => (
+                        <div key={photo.id} className="text-[10px] text-amber-300 truncate" title={photo.issues.join('\n')}>
+                          {photo.name}: {photo.issues.join(' ')}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="p-4 border-t border-white/5 space-y-3">
+          {/* EXIF: GPS and device serials are never copied; capture date always is (JPEG only) */}
+          <div>
+            <label className="flex items-center gap-2 text-[11px] text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={exportMetadata.writeCopyright}
+                onChange={(e) => onExportMetadataChange({ ...exportMetadata, writeCopyright: e.target.checked })}
+                className="accent-violet-500"
+              />
+              Gravar autor e copyright no EXIF
+            </label>
+            {exportMetadata.writeCopyright && (
+              <div className="mt-2 space-y-1">
+                {([
+                  ['artist', 'Autor / Fotógrafo'],
+                  ['copyright', '© Imobiliária'],
+                  ['description', 'Descrição'],
+                ] as const).map(([field, placeholder]) => (
+                  <input
+                    key={field}
+                    value={exportMetadata[field]}
+                    placeholder={placeholder}
+                    onChange={(e) => onExportMetadataChange({ ...exportMetadata, [field]: e.target.value })}
+                    className="w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-[11px] text-gray-200 outline-none"
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+          <label className="flex items-center justify-between text-[10px] text-gray-500">
+            Processos paralelos
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+              className="bg-black/40 border border-white/10 rounded px-1 py-0.5 text-gray-300 outline-none"
+            >
+              {[1, 2, 3, 4, 6, 8].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          {tab === 'manual' ? (
+            <button
+              onClick={() => onExport(settings)}
+              className="w-full glass-button bg-violet-600/80 hover:bg-violet-500/90 text-white py-2.5 rounded-lg font-medium flex items-center justify-center gap-2"
+            >
+              <Download size={16} /> Exportar
+            </button>
+          ) : (
+            <button
+              onClick={() => onExportProfiles(selectedProfiles)}
+              disabled={selectedProfiles.length === 0 || isValidating}
+              className="w-full glass-button bg-violet-600/80 hover:bg-violet-500/90 text-white py-2.5 rounded-lg font-medium flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download size={16} />
+              {isValidating ? 'Validando...' : hasViolations ? 'Exportar mesmo assim' : `Exportar ${selectedProfiles.length} perfil(is)`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,248 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FlyerElement, FlyerTemplate, ImageFile, Listing } from '../types';
+import { BUILT_IN_TEMPLATES, FLYER_ELEMENT_LABELS, FLYER_TOKENS, createFlyerElement } from '../services/flyers';
+import { getListingLabel } from '../services/listings';
+import { loadImage, loadLayerSources } from '../services/imageUtils';
+import { LayerSources, PreparedSource, prepareSource, renderPipeline } from '../services/renderPipeline';
+import { getPerspectiveTransform } from '../services/perspective';
+import { getRedactionRegions } from '../services/privacyRegions';
+import Slider from './ui/Slider';
+import { Download, Plus, Save, Trash2, X } from './ui/Icons';
+
+interface FlyerEditorProps {
+  listing: Listing;
+  image: ImageFile | null;          // Listing cover
+  userTemplates: FlyerTemplate[];
+  onTemplatesChange: (templates: FlyerTemplate[]) => void;
+  onTemplateSelect: (id: string) => void;
+  onDownload: (template: FlyerTemplate) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_SIZE = 900;
+
+const inputClass = "w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-[11px] text-gray-200 outline-none focus:border-violet-500";
+
+const FlyerEditor: React.FC<FlyerEditorProps> = ({
+  listing, image, userTemplates, onTemplatesChange, onTemplateSelect, onDownload, onClose
+}) => {
+  const templates = [...BUILT_IN_TEMPLATES, ...userTemplates];
+  const [draft, setDraft] = useState<FlyerTemplate>(
+    () => templates.find(t => t.id === listing.flyerTemplateId) || BUILT_IN_TEMPLATES[0]
+  );
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(templates.find(t => t.id === draft.id));
+
+  // Cover decoded once; the template is redrawn over it on every edit
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [prepared, setPrepared] = useState<PreparedSource | null>(null);
+  const [layerSources, setLayerSources] = useState<LayerSources>(new Map());
+
+  useEffect(() => {
+    setPrepared(null);
+    if (!image) return;
+    let cancelled = false;
+    Promise.all([loadImage(image.originalUrl), loadLayerSources(image.adjustments)])
+      .then(([img, sources]) => {
+        if (cancelled) return;
+        setPrepared(prepareSource(img, getPerspectiveTransform(image.adjustments), PREVIEW_SIZE));
+        setLayerSources(sources);
+      })
+      .catch(e => console.error("Failed to load cover", e));
+    return () => { cancelled = true; };
+  }, [image]);
+
+  useEffect(() => {
+    if (!canvasRef.current || !prepared || !image) return;
+    try {
+      renderPipeline(canvasRef.current, prepared, image.adjustments, getRedactionRegions(image), layerSources, {
+        maxSize: PREVIEW_SIZE,
+        flyer: { template: draft, listing },
+      });
+    } catch (e) {
+      console.error("Flyer preview failed", e);
+    }
+  }, [prepared, layerSources, image, draft, listing]);
+
+  const selectTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+    setDraft(template);
+    onTemplateSelect(id);
+  };
+
+  const updateElement = (id: string, patch: Partial<FlyerElement>) => {
+    setDraft(prev => ({
+      ...prev,
+      elements: prev.elements.map(el => el.id === id ? { ...el, ...patch } as FlyerElement : el),
+    }));
+  };
+
+  const addElement = (kind: FlyerElement['kind']) => {
+    // Frames go first so they inset everything else
+    const element = createFlyerElement(kind);
+    setDraft(prev => ({
+      ...prev,
+      elements: kind === 'frame' ? [element, ...prev.elements] : [...prev.elements, element],
+    }));
+  };
+
+  const removeElement = (id: string) => {
+    setDraft(prev => ({ ...prev, elements: prev.elements.filter(el => el.id !== id) }));
+  };
+
+  const saveAsNew = () => {
+    const name = prompt("Nome do modelo:", draft.builtIn ? `${draft.name} (cópia)` : draft.name);
+    if (!name) return;
+    const template: FlyerTemplate = { ...draft, id: crypto.randomUUID(), name, createdAt: Date.now(), builtIn: undefined };
+    onTemplatesChange([...userTemplates, template]);
+    setDraft(template);
+    onTemplateSelect(template.id);
+  };
+
+  const save = () => {
+    if (draft.builtIn) return saveAsNew();
+    onTemplatesChange(userTemplates.map(t => t.id === draft.id ? draft : t));
+  };
+
+  const deleteTemplate = () => {
+    if (draft.builtIn || !confirm(`Excluir o modelo "${draft.name}"?`)) return;
+    onTemplatesChange(userTemplates.filter(t => t.id !== draft.id));
+    selectTemplate(BUILT_IN_TEMPLATES[0].id);
+  };
+
+  const colorInput = (value: string, onChange: (v: string) => void, title: string) => (
+    <input
+      type="color"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      title={title}
+      className="w-7 h-6 bg-transparent border border-white/10 rounded cursor-pointer flex-shrink-0"
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="glass-panel rounded-xl w-full max-w-4xl flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-white/5 flex justify-between items-center">
+          <h3 className="text-sm font-semibold text-violet-200">Post do imóvel · {getListingLabel(listing)}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={16} /></button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Preview */}
+          <div className="flex-1 p-4 flex items-center justify-center bg-black/30 min-w-0">
+            {image
+              ? <canvas ref={canvasRef} className="max-w-full max-h-[70vh] object-contain shadow-2xl" />
+              : <p className="text-xs text-gray-500">Este imóvel ainda não tem fotos.</p>
+            }
+          </div>
+
+          {/* Template */}
+          <div className="w-80 border-l border-white/5 p-4 space-y-4 overflow-y-auto">
+            <div>
+              <label className="text-xs font-medium text-gray-300 uppercase tracking-wider">Modelo</label>
+              <div className="flex gap-1 mt-2">
+                <select value={draft.id} onChange={(e) => selectTemplate(e.target.value)} className={inputClass}>
+                  {templates.map(t => <option key={t.id} value={t.id}>{t.name}{t.builtIn ? ' (padrão)' : ''}</option>)}
+                </select>
+                {!draft.builtIn && (
+                  <button onClick={deleteTemplate} className="glass-button px-2 rounded text-red-300 hover:bg-red-500/10" title="Excluir modelo">
+                    <Trash2 size={12} />
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {draft.elements.map(el => (
+                <div key={el.id} className="bg-white/5 border border-white/5 rounded-lg p-2 space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="text-[11px] font-medium text-gray-200">{FLYER_ELEMENT_LABELS[el.kind]}</span>
+                    <button onClick={() => removeElement(el.id)} className="text-gray-500 hover:text-red-400"><Trash2 size={12} /></button>
+                  </div>
+
+                  {el.kind === 'frame' && (
+                    <div className="flex items-center gap-2">
+                      {colorInput(el.color, v => updateElement(el.id, { color: v }), 'Cor')}
+                      <div className="flex-1">
+                        <Slider label="Espessura (%)" value={Math.round(el.width * 100)} min={1} max={10} onChange={(v) => updateElement(el.id, { width: v / 100 })} />
+                      </div>
+                    </div>
+                  )}
+
+                  {el.kind === 'ribbon' && (
+                    <>
+                      <div className="flex gap-1">
+                        <input value={el.text} onChange={(e) => updateElement(el.id, { text: e.target.value })} className={inputClass} placeholder="{status}" />
+                        {colorInput(el.color, v => updateElement(el.id, { color: v }), 'Cor da faixa')}
+                        {colorInput(el.textColor, v => updateElement(el.id, { textColor: v }), 'Cor do texto')}
+                      </div>
+                      <select value={el.corner} onChange={(e) => updateElement(el.id, { corner: e.target.value as 'top-left' | 'top-right' })} className={inputClass}>
+                        <option value="top-left">Canto superior esquerdo</option>
+                        <option value="top-right">Canto superior direito</option>
+                      </select>
+                    </>
+                  )}
+
+                  {el.kind === 'infoBar' && (
+                    <>
+                      <textarea
+                        value={el.text}
+                        onChange={(e) => updateElement(el.id, { text: e.target.value })}
+                        rows={2}
+                        className={`${inputClass} resize-none`}
+                      />
+                      <div className="flex gap-1">
+                        <select value={el.position} onChange={(e) => updateElement(el.id, { position: e.target.value as 'top' | 'bottom' })} className={inputClass}>
+                          <option value="top">Topo</option>
+                          <option value="bottom">Rodapé</option>
+                        </select>
+                        {colorInput(el.color, v => updateElement(el.id, { color: v }), 'Cor da barra')}
+                        {colorInput(el.textColor, v => updateElement(el.id, { textColor: v }), 'Cor do texto')}
+                      </div>
+                      <Slider label="Texto (%)" value={Math.round(el.size * 100)} min={2} max={10} onChange={(v) => updateElement(el.id, { size: v / 100 })} />
+                      <Slider label="Opacidade" value={Math.round(el.opacity * 100)} min={0} max={100} onChange={(v) => updateElement(el.id, { opacity: v / 100 })} />
+                    </>
+                  )}
+                </div>
+              ))}
+
+              <div className="grid grid-cols-3 gap-1">
+                {(['frame', 'ribbon', 'infoBar'] as const).map(kind => (
+                  <button key={kind} onClick={() => addElement(kind)} className="glass-button py-1 rounded text-[10px] text-gray-300 flex items-center justify-center gap-1">
+                    <Plus size={10} /> {FLYER_ELEMENT_LABELS[kind].split(' ')[0]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="text-[10px] text-gray-500 leading-relaxed">
+              {FLYER_TOKENS.map(t => <div key={t.token}><span className="font-mono text-violet-300">{t.token}</span> {t.description}</div>)}
+              <div className="mt-1">Edite preço, quartos, área e status no painel do imóvel.</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-white/5 flex justify-between gap-2">
+          <div className="flex gap-2">
+            <button onClick={save} disabled={!isDirty && !draft.builtIn} className="glass-button px-3 py-1.5 rounded-lg text-xs text-gray-200 flex items-center gap-1 disabled:opacity-40">
+              <Save size={12} /> {draft.builtIn ? 'Salvar como modelo' : 'Salvar'}
+            </button>
+            {!draft.builtIn && (
+              <button onClick={saveAsNew} className="glass-button px-3 py-1.5 rounded-lg text-xs text-gray-400">Salvar como novo</button>
+            )}
+          </div>
+          <button
+            onClick={() => onDownload(draft)}
+            disabled={!image}
+            className="bg-violet-600 hover:bg-violet-500 text-white px-4 py-1.5 rounded-lg text-xs font-medium flex items-center gap-1 disabled:opacity-40"
+          >
+            <Download size={12} /> Baixar post
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlyerEditor;
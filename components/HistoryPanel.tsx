@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { HistoryState } from '../types';
+import { canRedo, canUndo } from '../services/history';
+import { Undo, Redo, Clock, RotateCcw } from './ui/Icons';
+
+interface HistoryPanelProps {
+  state: HistoryState;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ state, onUndo, onRedo, onJump }) => {
+  const [showList, setShowList] = useState(false);
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <div className="flex gap-1 bg-black/40 backdrop-blur-lg rounded-lg p-1 glass-panel">
+        <button
+          onClick={onUndo}
+          disabled={!canUndo(state)}
+          className="p-1.5 rounded text-white/80 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed"
+          title="Desfazer (Ctrl+Z)"
+        >
+          <Undo size={18} />
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!canRedo(state)}
+          className="p-1.5 rounded text-white/80 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed"
+          title="Refazer (Ctrl+Shift+Z)"
+        >
+          <Redo size={18} />
+        </button>
+        <button
+          onClick={() => setShowList(!showList)}
+          className={`p-1.5 rounded hover:text-white hover:bg-white/10 ${showList ? 'text-violet-300' : 'text-white/80'}`}
+          title="Histórico de edições"
+        >
+          <Clock size={18} />
+        </button>
+      </div>
+
+      {showList && (
+        <div className="glass-panel rounded-lg w-56 max-h-72 overflow-y-auto flex flex-col animate-in fade-in slide-in-from-top-2">
+          <div className="px-3 py-2 text-[10px] text-gray-400 uppercase font-bold tracking-wider border-b border-white/5">
+            Histórico ({state.history.length})
+          </div>
+          {/* Initial state: jumping here undoes everything */}
+          <button
+            onClick={() => onJump(-1)}
+            className={`flex items-center gap-2 text-left text-xs px-3 py-1.5 hover:bg-white/10 ${state.historyIndex === -1 ? 'text-violet-300 font-medium' : 'text-gray-400'}`}
+          >
+            <RotateCcw size={12} /> Início da sessão
+          </button>
+          {state.history.map((entry, idx) => {
+            const isCurrent = idx === state.historyIndex;
+            const isUndone = idx > state.historyIndex;
+            const count = Object.keys(entry.after).length;
+            return (
+              <button
+                key={entry.id}
+                onClick={() => onJump(idx)}
+                className={`flex justify-between items-center text-left text-xs px-3 py-1.5 hover:bg-white/10 ${isCurrent ? 'text-violet-300 font-medium bg-violet-500/10' : isUndone ? 'text-gray-600 line-through' : 'text-gray-300'}`}
+              >
+                <span className="truncate">{entry.label}</span>
+                <span className="text-[10px] text-gray-500 flex-shrink-0 ml-2">
+                  {count > 1 ? `${count} fotos` : new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
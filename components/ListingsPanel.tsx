@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { ImageFile, Listing, UserConfig } from '../types';
+import { LISTING_STATUSES, PROPERTY_TYPES, getCoverImage, getListingLabel } from '../services/listings';
+import { Home, ImageIcon, Plus, Star, Trash2 } from './ui/Icons';
+
+interface ListingsPanelProps {
+  listings: Listing[];
+  activeListingId: string | null;
+  images: ImageFile[];
+  userConfigs: UserConfig[];
+  viewImageId: string | null;
+  selectedCount: number;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onUpdate: (id: string, patch: Partial<Listing>) => void;
+  onDelete: (id: string) => void;
+  onMoveSelection: (targetId: string) => void;
+  onOpenFlyer: () => void;
+}
+
+// Empty input clears the value
+const parseNumber = (value: string) => value.trim() === '' ? null : Number(value);
+
+const inputClass = "w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-[11px] text-gray-200 outline-none focus:border-violet-500";
+
+const ListingsPanel: React.FC<ListingsPanelProps> = ({
+  listings, activeListingId, images, userConfigs, viewImageId, selectedCount,
+  onSelect, onCreate, onUpdate, onDelete, onMoveSelection, onOpenFlyer
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const active = listings.find(l => l.id === activeListingId);
+
+  return (
+    <div className="p-3 border-b border-white/5">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[10px] text-gray-400 uppercase font-bold tracking-wider flex items-center gap-1">
+          <Home size={12} /> Imóveis ({listings.length})
+        </span>
+        <button onClick={onCreate} className="flex items-center gap-1 text-[11px] text-violet-300 hover:text-violet-200">
+          <Plus size={12} /> Novo
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1 max-h-40 overflow-y-auto">
+        {listings.map(listing => {
+          const cover = getCoverImage(listing, images);
+          const isActive = listing.id === activeListingId;
+          return (
+            <button
+              key={listing.id}
+              onClick={() => onSelect(listing.id)}
+              className={`flex items-center gap-2 p-1.5 rounded-lg text-left transition-colors ${isActive ? 'bg-violet-500/15 border border-violet-500/40' : 'hover:bg-white/5 border border-transparent'}`}
+            >
+              <div className="w-9 h-9 rounded bg-white/5 overflow-hidden flex-shrink-0 flex items-center justify-center">
+                {cover ? <img src={cover.originalUrl} className="w-full h-full object-cover" alt="" /> : <Home size={14} className="text-gray-600" />}
+              </div>
+              <div className="min-w-0">
+                <div className={`text-xs font-medium truncate ${isActive ? 'text-violet-200' : 'text-gray-200'}`}>{getListingLabel(listing)}</div>
+                <div className="text-[10px] text-gray-500 truncate">
+                  {PROPERTY_TYPES.find(t => t.value === listing.type)?.label} · {listing.imageIds.length} fotos
+                </div>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {active && (
+        <div className="mt-2">
+          <div className="flex justify-between">
+            <button onClick={() => setIsEditing(!isEditing)} className="text-[10px] text-gray-500 hover:text-violet-300">
+              {isEditing ? 'Fechar detalhes' : 'Editar imóvel'}
+            </button>
+            <button onClick={onOpenFlyer} className="text-[10px] text-violet-300 hover:text-violet-200 flex items-center gap-1">
+              <ImageIcon size={10} /> Post / Flyer
+            </button>
+          </div>
+
+          {isEditing && (
+            <div className="mt-2 space-y-1.5">
+              <input
+                value={active.code}
+                onChange={(e) => onUpdate(active.id, { code: e.target.value })}
+                placeholder="Código (ex.: AP1234)"
+                className={inputClass}
+              />
+              <input
+                value={active.address}
+                onChange={(e) => onUpdate(active.id, { address: e.target.value })}
+                placeholder="Endereço"
+                className={inputClass}
+              />
+              <div className="flex gap-1">
+                <select
+                  value={active.type}
+                  onChange={(e) => onUpdate(active.id, { type: e.target.value as Listing['type'] })}
+                  className={inputClass}
+                >
+                  {PROPERTY_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                </select>
+                <select
+                  value={active.defaultConfigId ?? ''}
+                  onChange={(e) => onUpdate(active.id, { defaultConfigId: e.target.value || null })}
+                  className={inputClass}
+                  title="Configuração aplicada às novas fotos deste imóvel"
+                >
+                  <option value="">Config padrão</option>
+                  {userConfigs.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+              </div>
+
+              {/* Shown by flyer templates */}
+              <div className="grid grid-cols-2 gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  value={active.price ?? ''}
+                  onChange={(e) => onUpdate(active.id, { price: parseNumber(e.target.value) })}
+                  placeholder="Preço (R$)"
+                  className={inputClass}
+                />
+                <select
+                  value={active.status}
+                  onChange={(e) => onUpdate(active.id, { status: e.target.value as Listing['status'] })}
+                  className={inputClass}
+                >
+                  {LISTING_STATUSES.map(s => <option key={s.value} value={s.value}>{s.label || 'Sem status'}</option>)}
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  value={active.bedrooms ?? ''}
+                  onChange={(e) => onUpdate(active.id, { bedrooms: parseNumber(e.target.value) })}
+                  placeholder="Quartos"
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={active.area ?? ''}
+                  onChange={(e) => onUpdate(active.id, { area: parseNumber(e.target.value) })}
+                  placeholder="Área (m²)"
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="flex gap-1">
+                <button
+                  onClick={() => viewImageId && onUpdate(active.id, { coverImageId: viewImageId })}
+                  disabled={!viewImageId || !active.imageIds.includes(viewImageId)}
+                  className="flex-1 glass-button py-1 rounded text-[10px] text-gray-300 flex items-center justify-center gap-1 disabled:opacity-40"
+                >
+                  <Star size={10} /> Foto atual como capa
+                </button>
+                <button
+                  onClick={() => onDelete(active.id)}
+                  className="glass-button px-2 py-1 rounded text-[10px] text-red-300 hover:bg-red-500/10"
+                  title="Excluir imóvel e suas fotos"
+                >
+                  <Trash2 size={10} />
+                </button>
+              </div>
+
+              {selectedCount > 0 && listings.length > 1 && (
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && onMoveSelection(e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Mover {selectedCount} foto(s) para...</option>
+                  {listings.filter(l => l.id !== active.id).map(l => (
+                    <option key={l.id} value={l.id}>{getListingLabel(l)}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ListingsPanel;
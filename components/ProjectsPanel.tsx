@@ -0,0 +1,86 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProjectRecord } from '../types';
+import { FolderOpen, Plus, Trash2 } from './ui/Icons';
+
+interface ProjectsPanelProps {
+  projects: ProjectRecord[];
+  currentProjectId: string;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  onShow: () => void; // Refresh the list when the dropdown opens
+}
+
+const ProjectsPanel: React.FC<ProjectsPanelProps> = ({ projects, currentProjectId, onOpen, onDelete, onNew, onShow }) => {
+  const [showList, setShowList] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (listRef.current && !listRef.current.contains(event.target as Node)) {
+        setShowList(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const toggle = () => {
+    if (!showList) onShow();
+    setShowList(!showList);
+  };
+
+  return (
+    <div className="relative" ref={listRef}>
+      <button onClick={toggle} className="text-xs text-gray-500 hover:text-violet-300 flex items-center gap-1 transition-colors">
+        <FolderOpen size={12} /> Projetos Recentes
+      </button>
+
+      {showList && (
+        <div className="absolute top-full left-1/2 -translate-x-1/2 mt-2 w-64 bg-[#1a1c2e] border border-white/10 rounded-lg shadow-2xl backdrop-blur-xl z-50 max-h-72 overflow-y-auto text-left">
+          <div className="p-2 flex justify-between items-center text-[10px] text-gray-400 uppercase font-bold tracking-wider border-b border-white/5">
+            <span>Projetos ({projects.length})</span>
+            <button
+              onClick={() => { onNew(); setShowList(false); }}
+              className="flex items-center gap-1 text-violet-300 hover:text-violet-200 normal-case font-medium"
+            >
+              <Plus size={12} /> Novo
+            </button>
+          </div>
+          {projects.length === 0 ? (
+            <div className="p-4 text-center text-xs text-gray-500">Nenhum projeto salvo.</div>
+          ) : (
+            <div className="flex flex-col">
+              {projects.map(project => {
+                const isCurrent = project.id === currentProjectId;
+                return (
+                  <div key={project.id} className={`flex items-center justify-between p-2 hover:bg-white/5 transition-colors group border-b border-white/5 last:border-0 ${isCurrent ? 'bg-violet-500/10' : ''}`}>
+                    <button
+                      onClick={() => { onOpen(project.id); setShowList(false); }}
+                      className="flex-1 text-left min-w-0"
+                    >
+                      <div className={`text-xs font-medium truncate group-hover:text-violet-300 ${isCurrent ? 'text-violet-300' : 'text-gray-200'}`}>{project.name}</div>
+                      <div className="text-[10px] text-gray-500">
+                        {project.imageIds.length} fotos · {new Date(project.updatedAt).toLocaleString()}
+                      </div>
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onDelete(project.id); }}
+                      className="p-1.5 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Excluir"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectsPanel;
@@ -0,0 +1,249 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AiJob, AiJobStatus, ImageFile } from '../types';
+import { THUMBNAIL_FILTERS, ThumbnailFilter, matchesFilter } from '../services/thumbnails';
+import { AI_JOB_LABELS, MAX_ATTEMPTS, isActiveJob } from '../services/aiQueue';
+import { AlertCircle, CheckSquare, Clock, RotateCw, Square, X } from './ui/Icons';
+
+interface ThumbnailStripProps {
+  images: ImageFile[];              // Active listing, in strip order
+  selectedImageIds: Set<string>;
+  viewImageId: string | null;
+  filter: ThumbnailFilter;
+  onFilterChange: (filter: ThumbnailFilter) => void;
+  onThumbnailClick: (id: string, visibleIds: string[], modifiers: { shift: boolean; toggle: boolean }) => void;
+  onToggleSelection: (id: string) => void;
+  onSelectAll: (visibleIds: string[]) => void;
+  onReorder: (ids: string[], beforeId: string | null) => void;
+  aiJobs: AiJob[];
+  onRetryAiJob: (id: string) => void;
+  onCancelAiJob: (id: string) => void; // Cancels an active job, dismisses a finished one
+}
+
+const ITEM_WIDTH = 80;
+const ITEM_GAP = 12;
+const ITEM_STRIDE = ITEM_WIDTH + ITEM_GAP;
+const PADDING = 16;
+// Extra items rendered on each side so fast scrolling doesn't show blanks
+const OVERSCAN = 4;
+
+// The job a thumbnail shows when a photo has several: what needs attention first
+const STATUS_ORDER: AiJobStatus[] = ['failed', 'running', 'retrying', 'queued', 'cancelled'];
+
+const STATUS_LABELS: Record<AiJobStatus, string> = {
+  queued: 'na fila',
+  running: 'em andamento',
+  retrying: 'aguardando nova tentativa',
+  failed: 'falhou',
+  cancelled: 'cancelada',
+};
+
+const getJobTitle = (job: AiJob) => [
+  `${AI_JOB_LABELS[job.kind]}: ${STATUS_LABELS[job.status]}`,
+  job.attempts > 0 && `Tentativa ${job.attempts} de ${MAX_ATTEMPTS}`,
+  job.error,
+].filter(Boolean).join('\n');
+
+const ThumbnailStrip: React.FC<ThumbnailStripProps> = ({
+  images, selectedImageIds, viewImageId, filter, onFilterChange, onThumbnailClick, onToggleSelection, onSelectAll, onReorder,
+  aiJobs, onRetryAiJob, onCancelAiJob
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const [draggedIds, setDraggedIds] = useState<string[] | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const visible = images.filter(img => matchesFilter(img, filter));
+  const visibleIds = visible.map(img => img.id);
+  const allSelected = visible.length > 0 && visible.every(img => selectedImageIds.has(img.id));
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportWidth(el.clientWidth));
+    observer.observe(el);
+    setViewportWidth(el.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep the viewed photo in view (e.g. after undo or switching listings)
+  useEffect(() => {
+    const el = scrollRef.current;
+    const index = viewImageId ? visibleIds.indexOf(viewImageId) : -1;
+    if (!el || index < 0) return;
+    const left = PADDING + index * ITEM_STRIDE;
+    if (left < el.scrollLeft || left + ITEM_WIDTH > el.scrollLeft + el.clientWidth) {
+      el.scrollLeft = left - el.clientWidth / 2 + ITEM_WIDTH / 2;
+    }
+  }, [viewImageId]);
+
+  const first = Math.max(0, Math.floor((scrollLeft - PADDING) / ITEM_STRIDE) - OVERSCAN);
+  const last = Math.min(visible.length, Math.ceil((scrollLeft + viewportWidth) / ITEM_STRIDE) + OVERSCAN);
+  const totalWidth = PADDING * 2 + visible.length * ITEM_STRIDE - ITEM_GAP;
+
+  const handleDragStart = (e: React.DragEvent, id: string) => {
+    // Dragging a selected photo moves the whole selection
+    const ids = selectedImageIds.has(id) ? visibleIds.filter(v => selectedImageIds.has(v)) : [id];
+    setDraggedIds(ids);
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', ids.join(','));
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!draggedIds || !scrollRef.current) return;
+    e.preventDefault();
+    const rect = scrollRef.current.getBoundingClientRect();
+    const x = e.clientX - rect.left + scrollRef.current.scrollLeft - PADDING;
+    setDropIndex(Math.max(0, Math.min(visible.length, Math.round(x / ITEM_STRIDE))));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (draggedIds && dropIndex !== null) {
+      onReorder(draggedIds, visibleIds[dropIndex] ?? null);
+    }
+    setDraggedIds(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <section className="h-32 glass-panel border-t border-white/5 flex flex-col">
+      <div className="h-8 flex items-center px-4 border-b border-white/5 justify-between bg-black/20 gap-4">
+        <button onClick={() => onSelectAll(visibleIds)} className="flex items-center gap-2 text-xs text-gray-300 hover:text-white">
+          {allSelected ? <CheckSquare size={14} className="text-violet-400" /> : <Square size={14} />}
+          Selecionar Tudo
+        </button>
+        <div className="flex items-center gap-1 overflow-x-auto no-scrollbar">
+          {THUMBNAIL_FILTERS.map(f => (
+            <button
+              key={f.value}
+              onClick={() => onFilterChange(f.value)}
+              className={`px-2 py-0.5 rounded-full text-[10px] whitespace-nowrap transition-colors ${filter === f.value ? 'bg-violet-600/50 text-white' : 'text-gray-500 hover:text-gray-300 hover:bg-white/5'}`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-gray-500 whitespace-nowrap">
+          {visible.length === images.length ? `${images.length} itens` : `${visible.length} de ${images.length}`}
+        </span>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+        onDragLeave={(e) => { if (e.currentTarget === e.target) setDropIndex(null); }}
+        className="flex-1 relative overflow-x-auto overflow-y-hidden no-scrollbar"
+      >
+        {images.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-500">
+            Envie até 50 fotos para começar a edição em massa
+          </div>
+        )}
+        {images.length > 0 && visible.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-500">
+            Nenhuma foto neste filtro
+          </div>
+        )}
+
+        <div className="relative h-full" style={{ width: totalWidth }}>
+          {visible.slice(first, last).map((img, offset) => {
+            const index = first + offset;
+            const isSelected = selectedImageIds.has(img.id);
+            const isViewed = viewImageId === img.id;
+            const isDragged = draggedIds?.includes(img.id);
+            const job = aiJobs
+              .filter(j => j.imageId === img.id)
+              .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status))[0];
+
+            return (
+              <div
+                key={img.id}
+                draggable
+                onDragStart={(e) => handleDragStart(e, img.id)}
+                onDragEnd={() => { setDraggedIds(null); setDropIndex(null); }}
+                style={{ left: PADDING + index * ITEM_STRIDE, width: ITEM_WIDTH }}
+                className={`
+                  absolute top-2 h-20 rounded-lg overflow-hidden border-2 transition-[border-color,opacity] group cursor-pointer
+                  ${isViewed ? 'border-violet-500 shadow-[0_0_15px_rgba(139,92,246,0.3)]' : 'border-transparent opacity-90'}
+                  ${isSelected ? 'ring-2 ring-white/50 ring-offset-1 ring-offset-black' : ''}
+                  ${isDragged ? 'opacity-40' : ''}
+                `}
+                onClick={(e) => onThumbnailClick(img.id, visibleIds, { shift: e.shiftKey, toggle: e.ctrlKey || e.metaKey })}
+              >
+                {img.thumbnailUrl
+                  ? <img src={img.thumbnailUrl} className="w-full h-full object-cover" alt="thumbnail" draggable={false} />
+                  : <div className="w-full h-full bg-white/5 animate-pulse"></div>
+                }
+
+                {/* Selection Checkbox */}
+                <div
+                  onClick={(e) => { e.stopPropagation(); onToggleSelection(img.id); }}
+                  className="absolute top-1 left-1 z-10 cursor-pointer"
+                >
+                  {isSelected
+                    ? <div className="bg-violet-600 rounded text-white"><CheckSquare size={16} /></div>
+                    : <div className="bg-black/50 rounded text-white/70 hover:text-white"><Square size={16} /></div>
+                  }
+                </div>
+
+                {/* AI Job Status */}
+                {job && (
+                  <div
+                    onClick={(e) => e.stopPropagation()}
+                    title={getJobTitle(job)}
+                    className={`absolute top-1 right-1 z-10 flex items-center gap-0.5 rounded-full bg-black/70 px-1 py-0.5 ${job.status === 'failed' ? 'text-red-400' : 'text-violet-300'}`}
+                  >
+                    {job.status === 'running' && <div className="w-3 h-3 border-2 border-violet-400 border-t-transparent rounded-full animate-spin"></div>}
+                    {(job.status === 'queued' || job.status === 'retrying') && <Clock size={12} className={job.status === 'retrying' ? 'text-yellow-400' : ''} />}
+                    {job.status === 'failed' && <AlertCircle size={12} />}
+                    {job.status === 'cancelled' && <X size={12} className="text-gray-400" />}
+                    <div className="hidden group-hover:flex items-center gap-0.5">
+                      {!isActiveJob(job) && (
+                        <button onClick={() => onRetryAiJob(job.id)} className="text-gray-300 hover:text-white" title="Tentar novamente">
+                          <RotateCw size={12} />
+                        </button>
+                      )}
+                      {/* A dismissed detection would just be queued again */}
+                      {(isActiveJob(job) || job.kind !== 'detectPrivacy') && <button
+                        onClick={() => onCancelAiJob(job.id)}
+                        className="text-gray-300 hover:text-white"
+                        title={isActiveJob(job) ? "Cancelar" : "Dispensar"}
+                      >
+                        <X size={12} />
+                      </button>}
+                    </div>
+                  </div>
+                )}
+
+                {/* Privacy Indicator */}
+                {img.adjustments.privacyBlur && (
+                  <div className="absolute bottom-1 right-1 text-violet-300 bg-black/60 rounded-full p-0.5">
+                    <div className={`w-2 h-2 rounded-full ${img.privacyRegions ? 'bg-violet-500' : 'bg-yellow-500 animate-pulse'}`}></div>
+                  </div>
+                )}
+
+                {/* Filter Overlay indicator */}
+                {isViewed && (
+                  <div className="absolute inset-0 bg-violet-500/10 pointer-events-none"></div>
+                )}
+              </div>
+            );
+          })}
+
+          {/* Drop marker */}
+          {draggedIds && dropIndex !== null && (
+            <div
+              className="absolute top-2 h-20 w-0.5 bg-violet-400 rounded pointer-events-none"
+              style={{ left: PADDING + dropIndex * ITEM_STRIDE - ITEM_GAP / 2 - 1 }}
+            ></div>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ThumbnailStrip;
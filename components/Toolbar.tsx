@@ -1,12 +1,17 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { Adjustments, FilterType, UserConfig } from '../types';
-import { DEFAULT_ADJUSTMENTS, FILTERS } from '../constants';
+import { Adjustments, BrandFont, FilterType, HistoryAction, LayerBlendMode, OverlayLayer, RedactionSettings, TiledWatermark, UserConfig, WatermarkAnchor, WatermarkStyle } from '../types';
+import { ADJUSTMENT_LABELS, DEFAULT_ADJUSTMENTS, FILTERS } from '../constants';
 import Slider from './ui/Slider';
-import { Layers, Shield, Save, ImageIcon, Wand2, Trash2, Check, X, MoreVertical, History, RotateCcw } from './ui/Icons';
+import { CROP_RATIOS, flipCrop, hasGeometry } from '../services/geometry';
+import { hasPerspective } from '../services/perspective';
+import { LAYER_ANCHORS, LAYER_BLEND_MODES, moveLayer, updateLayer } from '../services/layers';
+import { FONT_FILE_ACCEPT, SYSTEM_FONTS, getFontStack } from '../services/fonts';
+import { REDACTION_SHAPES, REDACTION_STYLES } from '../services/privacyRegions';
+import { Layers, Shield, Save, ImageIcon, Wand2, Trash2, Check, X, MoreVertical, History, RotateCcw, RotateCw, Crop, FlipHorizontal, FlipVertical, Ruler, Type, ChevronUp, ChevronDown, Upload, Square } from './ui/Icons';
 
 interface ToolbarProps {
   adjustments: Adjustments;
-  setAdjustments: (adj: Adjustments) => void;
+  setAdjustments: (adj: Adjustments, action?: HistoryAction) => void;
   applyFilter: (type: FilterType) => void;
   
   // User Config Props
@@ -15,11 +20,44 @@ interface ToolbarProps {
   onLoadUserConfig: (config: UserConfig) => void;
   onDeleteUserConfig: (id: string) => void;
 
+  // Layers Props
+  selectedLayerId: string | null;
+  onSelectLayer: (id: string | null) => void;
   onLogoUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onAddTextLayer: () => void;
   onRemoveBackground: () => void;
   isRemovingBg: boolean;
+
+  // Text Watermark Props
+  brandFonts: BrandFont[];
+  onFontUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onDeleteFont: (id: string) => void;
+  onTiledLogoUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onRedactionLogoUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+
+  // Crop Tool Props
+  isCropping: boolean;
+  onToggleCrop: () => void;
+  cropRatio: number | null;
+  onCropRatioChange: (ratio: number | null) => void;
+
+  // Perspective Guide Props
+  isEditingGuide: boolean;
+  onToggleGuide: () => void;
+
+  // Offline auto-straighten for the selection
+  onAutoStraighten: () => void;
+  isStraightening: boolean;
+
+  // Privacy region editor (viewed photo)
+  isEditingPrivacy: boolean;
+  onTogglePrivacyEditing: () => void;
+  onRedetectPrivacy: () => void;
+  manualRegionCount: number;
 }
 
+const WATERMARK_ANCHORS: WatermarkAnchor[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
 const Toolbar: React.FC<ToolbarProps> = ({ 
     adjustments, 
     setAdjustments, 
@@ -28,11 +66,34 @@ const Toolbar: React.FC<ToolbarProps> = ({
     onSaveUserConfig,
     onLoadUserConfig,
     onDeleteUserConfig,
+    selectedLayerId,
+    onSelectLayer,
     onLogoUpload,
+    onAddTextLayer,
     onRemoveBackground,
-    isRemovingBg
+    isRemovingBg,
+    brandFonts,
+    onFontUpload,
+    onDeleteFont,
+    onTiledLogoUpload,
+    onRedactionLogoUpload,
+    isCropping,
+    onToggleCrop,
+    cropRatio,
+    onCropRatioChange,
+    isEditingGuide,
+    onToggleGuide,
+    onAutoStraighten,
+    isStraightening,
+    isEditingPrivacy,
+    onTogglePrivacyEditing,
+    onRedetectPrivacy,
+    manualRegionCount
 }) => {
   const logoInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const tiledLogoInputRef = useRef<HTMLInputElement>(null);
+  const redactionLogoInputRef = useRef<HTMLInputElement>(null);
 
   // States for Configuration UI
   const [isNamingConfig, setIsNamingConfig] = useState(false);
@@ -44,6 +105,86 @@ const Toolbar: React.FC<ToolbarProps> = ({
     setAdjustments({ ...adjustments, [key]: value });
   };
 
+  const selectedLayer = adjustments.layers.find(l => l.id === selectedLayerId) || null;
+
+  // Each layer field gets its own merge key, so a slider drag is one undo step
+  const updateSelectedLayer = (field: string, patch: Partial<OverlayLayer>) => {
+    if (!selectedLayer) return;
+    setAdjustments(
+      { ...adjustments, layers: updateLayer(adjustments.layers, selectedLayer.id, patch) },
+      { label: `Camada: ${selectedLayer.name}`, mergeKey: `layer:${selectedLayer.id}:${field}` }
+    );
+  };
+
+  const removeLayer = (id: string) => {
+    setAdjustments({ ...adjustments, layers: adjustments.layers.filter(l => l.id !== id) }, { label: 'Remover Camada' });
+    if (id === selectedLayerId) onSelectLayer(null);
+  };
+
+  const style = adjustments.watermarkStyle;
+  const selectedBrandFont = brandFonts.find(f => f.family === style.fontFamily);
+
+  const updateStyle = <K extends keyof WatermarkStyle>(key: K, value: WatermarkStyle[K]) => {
+    setAdjustments(
+      { ...adjustments, watermarkStyle: { ...style, [key]: value } },
+      { label: 'Estilo do Texto', mergeKey: `watermarkStyle:${key}` }
+    );
+  };
+
+  const tiled = adjustments.tiledWatermark;
+
+  const updateTiled = (patch: Partial<TiledWatermark>, key: keyof TiledWatermark = Object.keys(patch)[0] as keyof TiledWatermark) => {
+    setAdjustments(
+      { ...adjustments, tiledWatermark: { ...tiled, ...patch } },
+      { label: ADJUSTMENT_LABELS.tiledWatermark, mergeKey: `tiledWatermark:${key}` }
+    );
+  };
+
+  const redaction = adjustments.redaction;
+
+  const updateRedaction = <K extends keyof RedactionSettings>(key: K, value: RedactionSettings[K]) => {
+    setAdjustments(
+      { ...adjustments, redaction: { ...redaction, [key]: value } },
+      { label: ADJUSTMENT_LABELS.redaction, mergeKey: `redaction:${key}` }
+    );
+  };
+
+  // Starts with the footer text, which is usually the brokerage name
+  const toggleTiled = (enabled: boolean) => {
+    updateTiled(enabled && !tiled.text ? { enabled, text: adjustments.watermark.split('\n')[0] } : { enabled }, 'enabled');
+  };
+
+  // 90° steps change the frame, so any crop rect is dropped
+  const rotate = (delta: number) => {
+    setAdjustments(
+      { ...adjustments, rotation: (adjustments.rotation + delta + 360) % 360, crop: null },
+      { label: delta > 0 ? 'Girar à direita' : 'Girar à esquerda' }
+    );
+  };
+
+  const flip = (horizontal: boolean) => {
+    setAdjustments(
+      horizontal
+        ? { ...adjustments, flipH: !adjustments.flipH, crop: flipCrop(adjustments.crop, true) }
+        : { ...adjustments, flipV: !adjustments.flipV, crop: flipCrop(adjustments.crop, false) },
+      { label: horizontal ? 'Espelhar horizontal' : 'Espelhar vertical' }
+    );
+  };
+
+  const resetGeometry = () => {
+    setAdjustments(
+      { ...adjustments, rotation: 0, flipH: false, flipV: false, straighten: 0, crop: null },
+      { label: 'Restaurar Recorte' }
+    );
+  };
+
+  const resetPerspective = () => {
+    setAdjustments(
+      { ...adjustments, perspectiveV: 0, perspectiveH: 0, perspectiveGuide: null },
+      { label: 'Restaurar Perspectiva' }
+    );
+  };
+
   const handleSaveClick = () => {
     if (configName.trim()) {
         onSaveUserConfig(configName);
@@ -162,7 +303,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
         
         {/* Reset Button */}
         <button
-          onClick={() => setAdjustments(DEFAULT_ADJUSTMENTS)}
+          onClick={() => setAdjustments(DEFAULT_ADJUSTMENTS, { label: 'Restaurar Original' })}
           className="w-full py-2 glass-button rounded-lg text-xs text-red-300 hover:bg-red-500/10 hover:text-red-200 hover:border-red-500/30 flex items-center justify-center gap-2 transition-all border border-transparent"
           title="Remove todas as edições e volta ao original"
         >
@@ -173,11 +314,140 @@ const Toolbar: React.FC<ToolbarProps> = ({
 
       <hr className="border-white/10 mb-6" />
 
-      {/* Elements / Watermark Section */}
+      {/* Crop / Rotate Section */}
+      <div className="mb-6">
+          <div className="flex items-center gap-2 mb-3 text-white/80">
+            <Crop size={16} />
+            <h3 className="text-sm font-semibold">Recorte e Rotação</h3>
+          </div>
+
+          <div className="grid grid-cols-4 gap-2 mb-3">
+              <button onClick={() => rotate(-90)} className="glass-button py-2 rounded-lg flex items-center justify-center text-gray-200 hover:text-white" title="Girar à esquerda">
+                  <RotateCcw size={14} />
+              </button>
+              <button onClick={() => rotate(90)} className="glass-button py-2 rounded-lg flex items-center justify-center text-gray-200 hover:text-white" title="Girar à direita">
+                  <RotateCw size={14} />
+              </button>
+              <button onClick={() => flip(true)} className={`glass-button py-2 rounded-lg flex items-center justify-center hover:text-white ${adjustments.flipH ? 'text-violet-300' : 'text-gray-200'}`} title="Espelhar horizontal">
+                  <FlipHorizontal size={14} />
+              </button>
+              <button onClick={() => flip(false)} className={`glass-button py-2 rounded-lg flex items-center justify-center hover:text-white ${adjustments.flipV ? 'text-violet-300' : 'text-gray-200'}`} title="Espelhar vertical">
+                  <FlipVertical size={14} />
+              </button>
+          </div>
+
+          <button
+            onClick={onAutoStraighten}
+            disabled={isStraightening}
+            className="w-full py-2 glass-button rounded-lg text-xs flex items-center justify-center gap-2 mb-3 text-gray-200 hover:text-white disabled:opacity-50"
+            title="Detecta linhas verticais/horizonte sem usar IA (funciona com a cota esgotada)"
+          >
+            {isStraightening ? <div className="animate-spin w-3 h-3 border-2 border-white/30 border-t-white rounded-full"></div> : <Ruler size={14} />}
+            Endireitar Automático (Seleção)
+          </button>
+
+          <Slider
+            label="Endireitar"
+            value={adjustments.straighten}
+            min={-45}
+            max={45}
+            step={0.1}
+            onChange={(v) => update('straighten', v)}
+            resetValue={DEFAULT_ADJUSTMENTS.straighten}
+          />
+
+          <button
+            onClick={onToggleCrop}
+            className={`w-full py-2 glass-button rounded-lg text-xs flex items-center justify-center gap-2 mb-2 ${isCropping ? 'bg-violet-600/80 text-white' : 'text-gray-200 hover:text-white'}`}
+          >
+            {isCropping ? <><Check size={14} /> Concluir Recorte</> : <><Crop size={14} /> Recortar</>}
+          </button>
+
+          {isCropping && (
+              <div className="grid grid-cols-5 gap-1 mb-2 animate-in fade-in">
+                  {CROP_RATIOS.map(ratio => (
+                      <button
+                        key={ratio.label}
+                        onClick={() => onCropRatioChange(ratio.value)}
+                        className={`text-[10px] py-1.5 rounded ${cropRatio === ratio.value ? 'bg-violet-600 text-white' : 'glass-button text-gray-300 hover:text-white'}`}
+                      >
+                        {ratio.label}
+                      </button>
+                  ))}
+              </div>
+          )}
+
+          {hasGeometry(adjustments) && (
+              <button onClick={resetGeometry} className="w-full text-[10px] text-violet-400 hover:text-violet-300">
+                  Redefinir recorte e rotação
+              </button>
+          )}
+      </div>
+
+      <hr className="border-white/10 mb-6" />
+
+      {/* Perspective Section */}
+      <div className="mb-6">
+          <div className="flex items-center gap-2 mb-3 text-white/80">
+            <Ruler size={16} />
+            <h3 className="text-sm font-semibold">Perspectiva</h3>
+          </div>
+
+          {adjustments.perspectiveGuide ? (
+              <p className="text-[10px] text-gray-400 mb-3">A guia de 4 pontos está ativa e substitui os controles deslizantes.</p>
+          ) : (
+              <>
+                <Slider
+                  label="Vertical"
+                  value={adjustments.perspectiveV}
+                  min={-100}
+                  max={100}
+                  onChange={(v) => update('perspectiveV', v)}
+                  resetValue={DEFAULT_ADJUSTMENTS.perspectiveV}
+                />
+                <Slider
+                  label="Horizontal"
+                  value={adjustments.perspectiveH}
+                  min={-100}
+                  max={100}
+                  onChange={(v) => update('perspectiveH', v)}
+                  resetValue={DEFAULT_ADJUSTMENTS.perspectiveH}
+                />
+              </>
+          )}
+
+          <div className="flex gap-2 mb-2">
+              <button
+                onClick={onToggleGuide}
+                className={`flex-1 py-2 glass-button rounded-lg text-xs flex items-center justify-center gap-2 ${isEditingGuide ? 'bg-violet-600/80 text-white' : 'text-gray-200 hover:text-white'}`}
+              >
+                {isEditingGuide ? <><Check size={14} /> Concluir Guia</> : <><Ruler size={14} /> Guia de 4 Pontos</>}
+              </button>
+              {adjustments.perspectiveGuide && !isEditingGuide && (
+                  <button
+                    onClick={() => setAdjustments({ ...adjustments, perspectiveGuide: null }, { label: 'Remover Guia' })}
+                    className="px-3 glass-button rounded-lg text-red-300 hover:text-red-200"
+                    title="Remover guia"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+              )}
+          </div>
+
+          {hasPerspective(adjustments) && (
+              <button onClick={resetPerspective} className="w-full text-[10px] text-violet-400 hover:text-violet-300">
+                  Redefinir perspectiva
+              </button>
+          )}
+      </div>
+
+      <hr className="border-white/10 mb-6" />
+
+      {/* Layers Section */}
       <div className="mb-6">
           <div className="flex items-center gap-2 mb-3 text-white/80">
             <ImageIcon size={16} />
-            <h3 className="text-sm font-semibold">Elementos</h3>
+            <h3 className="text-sm font-semibold">Camadas</h3>
           </div>
           
           <input 
@@ -188,74 +458,164 @@ const Toolbar: React.FC<ToolbarProps> = ({
               onChange={onLogoUpload}
           />
 
-          {!adjustments.overlayImage ? (
+          <div className="grid grid-cols-2 gap-2 mb-3">
               <button 
                   onClick={() => logoInputRef.current?.click()}
-                  className="w-full py-3 glass-button rounded-lg border-dashed border-white/20 text-gray-400 text-xs hover:text-white hover:border-violet-500/50 flex items-center justify-center gap-2"
+                  className="py-2 glass-button rounded-lg border-dashed border-white/20 text-gray-400 text-xs hover:text-white hover:border-violet-500/50 flex items-center justify-center gap-2"
               >
-                  <ImageIcon size={14} /> Adicionar Elemento/Logo
+                  <ImageIcon size={14} /> Logo/Imagem
               </button>
-          ) : (
-              <div className="space-y-4">
-                  <div className="flex items-center gap-3 bg-white/5 p-2 rounded-lg">
-                      <div className="w-12 h-12 bg-white/5 rounded border border-white/10 relative overflow-hidden flex items-center justify-center checkerboard-bg">
-                           <img src={adjustments.overlayImage} className="max-w-full max-h-full object-contain" alt="overlay" />
-                      </div>
-                      <div className="flex-1 flex flex-col gap-1">
-                          <button 
-                             onClick={onRemoveBackground}
-                             disabled={isRemovingBg}
-                             className="text-[10px] bg-violet-600/80 hover:bg-violet-500 text-white px-2 py-1 rounded flex items-center justify-center gap-1 disabled:opacity-50"
-                          >
-                             {isRemovingBg ? <div className="animate-spin w-3 h-3 border-2 border-white/30 border-t-white rounded-full"></div> : <Wand2 size={10} />}
-                             Remover Fundo (IA)
-                          </button>
-                          <button 
-                              onClick={() => update('overlayImage', null)}
-                              className="text-[10px] bg-red-500/20 hover:bg-red-500/40 text-red-200 px-2 py-1 rounded flex items-center justify-center gap-1"
+              <button 
+                  onClick={onAddTextLayer}
+                  className="py-2 glass-button rounded-lg border-dashed border-white/20 text-gray-400 text-xs hover:text-white hover:border-violet-500/50 flex items-center justify-center gap-2"
+              >
+                  <Type size={14} /> Texto
+              </button>
+          </div>
+
+          {/* Stack, topmost first */}
+          {adjustments.layers.length > 0 && (
+              <div className="flex flex-col gap-1 mb-4">
+                  {[...adjustments.layers].reverse().map((layer, i) => {
+                      const isSelected = layer.id === selectedLayerId;
+                      return (
+                          <div
+                              key={layer.id}
+                              onClick={() => onSelectLayer(isSelected ? null : layer.id)}
+                              className={`flex items-center gap-2 p-1.5 rounded-lg cursor-pointer border transition-colors ${isSelected ? 'bg-violet-500/15 border-violet-500/40' : 'border-transparent hover:bg-white/5'}`}
                           >
-                              <Trash2 size={10} /> Remover
-                          </button>
+                              <div className="w-8 h-8 bg-white/5 rounded border border-white/10 overflow-hidden flex items-center justify-center checkerboard-bg flex-shrink-0">
+                                  {layer.kind === 'image'
+                                    ? <img src={layer.src} className="max-w-full max-h-full object-contain" alt="" />
+                                    : <Type size={14} className="text-gray-300" />
+                                  }
+                              </div>
+                              <span className="flex-1 text-xs text-gray-200 truncate">{layer.kind === 'text' ? layer.text || layer.name : layer.name}</span>
+                              <button
+                                  onClick={(e) => { e.stopPropagation(); setAdjustments({ ...adjustments, layers: moveLayer(adjustments.layers, layer.id, 1) }, { label: 'Ordem das Camadas' }); }}
+                                  disabled={i === 0}
+                                  className="p-0.5 text-gray-500 hover:text-white disabled:opacity-30"
+                                  title="Trazer para frente"
+                              >
+                                  <ChevronUp size={12} />
+                              </button>
+                              <button
+                                  onClick={(e) => { e.stopPropagation(); setAdjustments({ ...adjustments, layers: moveLayer(adjustments.layers, layer.id, -1) }, { label: 'Ordem das Camadas' }); }}
+                                  disabled={i === adjustments.layers.length - 1}
+                                  className="p-0.5 text-gray-500 hover:text-white disabled:opacity-30"
+                                  title="Enviar para trás"
+                              >
+                                  <ChevronDown size={12} />
+                              </button>
+                              <button
+                                  onClick={(e) => { e.stopPropagation(); removeLayer(layer.id); }}
+                                  className="p-0.5 text-gray-500 hover:text-red-400"
+                                  title="Remover camada"
+                              >
+                                  <Trash2 size={12} />
+                              </button>
+                          </div>
+                      );
+                  })}
+              </div>
+          )}
+
+          {selectedLayer && (
+              <div className="space-y-4">
+                  {selectedLayer.kind === 'image' ? (
+                      <button 
+                         onClick={onRemoveBackground}
+                         disabled={isRemovingBg}
+                         className="w-full text-[10px] bg-violet-600/80 hover:bg-violet-500 text-white px-2 py-1.5 rounded flex items-center justify-center gap-1 disabled:opacity-50"
+                      >
+                         {isRemovingBg ? <div className="animate-spin w-3 h-3 border-2 border-white/30 border-t-white rounded-full"></div> : <Wand2 size={10} />}
+                         Remover Fundo (IA)
+                      </button>
+                  ) : (
+                      <div className="flex gap-2">
+                          <input
+                              value={selectedLayer.text}
+                              onChange={(e) => updateSelectedLayer('text', { text: e.target.value })}
+                              placeholder="Texto da camada"
+                              className="flex-1 bg-black/40 border border-white/10 rounded px-2 py-1 text-xs text-white outline-none focus:border-violet-500"
+                          />
+                          <input
+                              type="color"
+                              value={selectedLayer.color}
+                              onChange={(e) => updateSelectedLayer('color', { color: e.target.value })}
+                              className="w-8 h-7 bg-transparent border border-white/10 rounded cursor-pointer"
+                          />
                       </div>
-                  </div>
+                  )}
 
                   <Slider
-                    label="Tamanho"
-                    value={(adjustments.overlayScale || 0.2) * 100}
-                    min={5}
+                    label="Tamanho (% do lado menor)"
+                    value={Math.round(selectedLayer.scale * 100)}
+                    min={1}
                     max={200}
                     step={1}
-                    onChange={(v) => update('overlayScale', v / 100)}
-                    resetValue={20}
+                    onChange={(v) => updateSelectedLayer('scale', { scale: v / 100 })}
                   />
                   <Slider
                     label="Opacidade"
-                    value={(adjustments.overlayOpacity !== undefined ? adjustments.overlayOpacity : 1) * 100}
+                    value={Math.round(selectedLayer.opacity * 100)}
                     min={0}
                     max={100}
                     step={1}
-                    onChange={(v) => update('overlayOpacity', v / 100)}
+                    onChange={(v) => updateSelectedLayer('opacity', { opacity: v / 100 })}
                     resetValue={100}
                   />
-                  <div className="grid grid-cols-2 gap-2">
-                       <Slider
-                        label="Posição X"
-                        value={(adjustments.overlayX || 0.5) * 100}
-                        min={0}
-                        max={100}
-                        step={1}
-                        onChange={(v) => update('overlayX', v / 100)}
-                        resetValue={50}
-                      />
-                       <Slider
-                        label="Posição Y"
-                        value={(adjustments.overlayY || 0.5) * 100}
-                        min={0}
-                        max={100}
-                        step={1}
-                        onChange={(v) => update('overlayY', v / 100)}
-                        resetValue={50}
-                      />
+                  <Slider
+                    label="Rotação"
+                    value={selectedLayer.rotation}
+                    min={-180}
+                    max={180}
+                    step={1}
+                    onChange={(v) => updateSelectedLayer('rotation', { rotation: v })}
+                    resetValue={0}
+                  />
+                  {/* Anchor + margin, relative to the short edge so portrait and landscape match */}
+                  <div className="flex items-start gap-3">
+                      <div className="grid grid-cols-3 gap-1 flex-shrink-0">
+                          {LAYER_ANCHORS.map(anchor => (
+                              <button
+                                  key={anchor.value}
+                                  onClick={() => updateSelectedLayer('anchor', { anchor: anchor.value, offsetX: 0, offsetY: 0 })}
+                                  title={anchor.label}
+                                  className={`w-5 h-5 rounded border flex items-center justify-center ${selectedLayer.anchor === anchor.value ? 'border-violet-500 bg-violet-500/20' : 'border-white/10 hover:border-white/30'}`}
+                              >
+                                  <span className={`w-1.5 h-1.5 rounded-full ${selectedLayer.anchor === anchor.value ? 'bg-violet-300' : 'bg-gray-600'}`}></span>
+                              </button>
+                          ))}
+                      </div>
+                      <div className="flex-1">
+                          <Slider
+                            label="Margem (%)"
+                            value={Math.round(selectedLayer.margin * 100)}
+                            min={0}
+                            max={25}
+                            step={1}
+                            onChange={(v) => updateSelectedLayer('margin', { margin: v / 100 })}
+                          />
+                          {(selectedLayer.offsetX !== 0 || selectedLayer.offsetY !== 0) && (
+                              <button
+                                  onClick={() => updateSelectedLayer('offset', { offsetX: 0, offsetY: 0 })}
+                                  className="text-[10px] text-violet-400 hover:text-violet-300"
+                              >
+                                  Voltar à posição da âncora
+                              </button>
+                          )}
+                      </div>
+                  </div>
+                  <div>
+                      <label className="text-xs font-medium text-gray-300 uppercase tracking-wider">Mesclagem</label>
+                      <select
+                          value={selectedLayer.blendMode}
+                          onChange={(e) => updateSelectedLayer('blendMode', { blendMode: e.target.value as LayerBlendMode })}
+                          className="mt-1 w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-xs text-gray-200 outline-none focus:border-violet-500"
+                      >
+                          {LAYER_BLEND_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                      </select>
                   </div>
               </div>
           )}
@@ -298,6 +658,14 @@ const Toolbar: React.FC<ToolbarProps> = ({
           onChange={(v) => update('blur', v)}
           resetValue={DEFAULT_ADJUSTMENTS.blur}
         />
+        <Slider
+          label="Sépia"
+          value={adjustments.sepia}
+          min={0}
+          max={100}
+          onChange={(v) => update('sepia', v)}
+          resetValue={DEFAULT_ADJUSTMENTS.sepia}
+        />
         <Slider
             label="P&B"
             value={adjustments.grayscale}
@@ -334,19 +702,413 @@ const Toolbar: React.FC<ToolbarProps> = ({
               <div className="w-9 h-5 bg-gray-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-violet-600"></div>
             </label>
         </div>
+        <div className="flex gap-2 mt-2">
+            <button
+                onClick={onTogglePrivacyEditing}
+                className={`flex-1 py-2 glass-button rounded-lg text-xs flex items-center justify-center gap-2 ${isEditingPrivacy ? 'bg-violet-600/80 text-white' : 'text-gray-200 hover:text-white'}`}
+            >
+                {isEditingPrivacy ? <><Check size={14} /> Concluir</> : <><Square size={14} /> Editar áreas</>}
+            </button>
+            {adjustments.privacyBlur && (
+                <button
+                    onClick={onRedetectPrivacy}
+                    className="px-3 py-2 glass-button rounded-lg text-xs text-gray-300 hover:text-white flex items-center gap-1"
+                    title="Descarta as áreas detectadas e analisa a foto de novo (áreas manuais são mantidas)"
+                >
+                    <RotateCw size={14} /> Detectar novamente
+                </button>
+            )}
+        </div>
+        {manualRegionCount > 0 && (
+            <p className="text-[10px] text-gray-500 mt-2">
+                {manualRegionCount} {manualRegionCount === 1 ? 'área manual' : 'áreas manuais'} nesta foto (ocultadas mesmo com a detecção desligada)
+            </p>
+        )}
+
+        {(adjustments.privacyBlur || manualRegionCount > 0 || isEditingPrivacy) && (
+          <div className="mt-3 space-y-3">
+              <div className="grid grid-cols-4 gap-1 bg-black/20 p-1 rounded-lg">
+                  {REDACTION_STYLES.map(s => (
+                      <button
+                          key={s.value}
+                          onClick={() => updateRedaction('style', s.value)}
+                          className={`py-1 rounded text-[10px] transition-colors ${redaction.style === s.value ? 'bg-violet-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                      >
+                          {s.label}
+                      </button>
+                  ))}
+              </div>
+              <div className="flex items-center gap-2">
+                  <span className="text-[10px] text-gray-400 w-12">Forma</span>
+                  <select
+                      value={redaction.shape}
+                      onChange={(e) => updateRedaction('shape', e.target.value as RedactionSettings['shape'])}
+                      className="flex-1 bg-black/20 border border-white/10 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-violet-500"
+                      title="Automático: elipse nos rostos, retângulo nas placas"
+                  >
+                      {REDACTION_SHAPES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                  </select>
+              </div>
+
+              {(redaction.style === 'pixelate' || redaction.style === 'sticker') && (
+                  <Slider
+                    label="Tamanho do bloco (%)"
+                    value={Math.round(redaction.blockSize * 1000) / 10}
+                    min={0.5}
+                    max={10}
+                    step={0.5}
+                    onChange={(v) => updateRedaction('blockSize', v / 100)}
+                    resetValue={DEFAULT_ADJUSTMENTS.redaction.blockSize * 100}
+                  />
+              )}
+              {redaction.style === 'blur' && (
+                  <Slider
+                    label="Intensidade (%)"
+                    value={Math.round(redaction.blurRadius * 1000) / 10}
+                    min={0.5}
+                    max={10}
+                    step={0.5}
+                    onChange={(v) => updateRedaction('blurRadius', v / 100)}
+                    resetValue={DEFAULT_ADJUSTMENTS.redaction.blurRadius * 100}
+                  />
+              )}
+              {redaction.style === 'fill' && (
+                  <div className="flex items-center gap-2">
+                      <span className="text-[10px] text-gray-400 w-12">Cor</span>
+                      <input
+                          type="color"
+                          value={redaction.fillColor}
+                          onChange={(e) => updateRedaction('fillColor', e.target.value)}
+                          className="w-8 h-6 bg-transparent border border-white/10 rounded cursor-pointer"
+                      />
+                  </div>
+              )}
+              {redaction.style === 'sticker' && (
+                  <div className="flex gap-1">
+                      <div className="grid grid-cols-2 gap-1 bg-black/20 p-1 rounded-lg flex-shrink-0">
+                          {(['emoji', 'logo'] as const).map(sticker => (
+                              <button
+                                  key={sticker}
+                                  onClick={() => updateRedaction('sticker', sticker)}
+                                  className={`px-2 py-1 rounded text-[10px] transition-colors ${redaction.sticker === sticker ? 'bg-violet-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                              >
+                                  {sticker === 'emoji' ? 'Emoji' : 'Logo'}
+                              </button>
+                          ))}
+                      </div>
+                      {redaction.sticker === 'emoji' ? (
+                          <input
+                              value={redaction.emoji}
+                              onChange={(e) => updateRedaction('emoji', e.target.value)}
+                              maxLength={8}
+                              className="flex-1 min-w-0 bg-black/20 border border-white/10 rounded-md px-2 text-center text-sm text-white focus:outline-none focus:border-violet-500"
+                          />
+                      ) : (
+                          <>
+                              <input type="file" accept="image/*" ref={redactionLogoInputRef} className="hidden" onChange={onRedactionLogoUpload} />
+                              <button
+                                  onClick={() => redactionLogoInputRef.current?.click()}
+                                  className="flex-1 glass-button rounded-lg border-dashed border-white/20 text-gray-400 text-[10px] hover:text-white flex items-center justify-center gap-1"
+                              >
+                                  {redaction.logo
+                                    ? <img src={redaction.logo} className="h-5 max-w-[50%] object-contain" alt="logo" />
+                                    : <ImageIcon size={12} />
+                                  }
+                                  {redaction.logo ? 'Trocar' : 'Enviar logo'}
+                              </button>
+                          </>
+                      )}
+                  </div>
+              )}
+          </div>
+        )}
       </div>
 
       <hr className="border-white/10 my-6" />
 
       <div className="mb-8">
         <label className="text-xs font-medium text-gray-300 uppercase tracking-wider mb-2 block">Texto Rodapé</label>
-        <input 
-            type="text" 
+        <textarea 
             value={adjustments.watermark}
             onChange={(e) => update('watermark', e.target.value)}
-            placeholder="© Seu Nome"
-            className="w-full bg-black/20 border border-white/10 rounded-md p-2 text-sm text-white focus:outline-none focus:border-violet-500 transition-colors"
+            placeholder={"© Seu Nome\nCRECI 12345"}
+            rows={2}
+            className="w-full bg-black/20 border border-white/10 rounded-md p-2 text-sm text-white focus:outline-none focus:border-violet-500 transition-colors resize-none"
         />
+
+        {adjustments.watermark.trim() && (
+          <div className="mt-3 space-y-3">
+              {/* Font */}
+              <input type="file" accept={FONT_FILE_ACCEPT} ref={fontInputRef} className="hidden" onChange={onFontUpload} />
+              <div className="flex gap-1">
+                  <select
+                      value={style.fontFamily}
+                      onChange={(e) => updateStyle('fontFamily', e.target.value)}
+                      className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded px-2 py-1 text-xs text-gray-200 outline-none focus:border-violet-500"
+                      style={{ fontFamily: getFontStack(style.fontFamily) }}
+                  >
+                      {SYSTEM_FONTS.map(f => <option key={f.family} value={f.family}>{f.label}</option>)}
+                      {brandFonts.length > 0 && (
+                          <optgroup label="Fontes da marca">
+                              {brandFonts.map(f => <option key={f.id} value={f.family}>{f.family}</option>)}
+                          </optgroup>
+                      )}
+                      {!SYSTEM_FONTS.some(f => f.family === style.fontFamily) && !selectedBrandFont && (
+                          <option value={style.fontFamily}>{style.fontFamily} (não instalada)</option>
+                      )}
+                  </select>
+                  <button
+                      onClick={() => updateStyle('bold', !style.bold)}
+                      className={`w-7 rounded text-xs font-bold ${style.bold ? 'bg-violet-600 text-white' : 'glass-button text-gray-400'}`}
+                      title="Negrito"
+                  >
+                      B
+                  </button>
+                  <button
+                      onClick={() => updateStyle('italic', !style.italic)}
+                      className={`w-7 rounded text-xs italic font-serif ${style.italic ? 'bg-violet-600 text-white' : 'glass-button text-gray-400'}`}
+                      title="Itálico"
+                  >
+                      I
+                  </button>
+              </div>
+              <div className="flex gap-2 text-[10px]">
+                  <button onClick={() => fontInputRef.current?.click()} className="text-violet-300 hover:text-violet-200 flex items-center gap-1">
+                      <Upload size={10} /> Enviar fonte (.ttf, .otf, .woff)
+                  </button>
+                  {selectedBrandFont && (
+                      <button onClick={() => onDeleteFont(selectedBrandFont.id)} className="text-red-300 hover:text-red-200 flex items-center gap-1">
+                          <Trash2 size={10} /> Excluir fonte
+                      </button>
+                  )}
+              </div>
+
+              <Slider
+                label="Tamanho (% da largura)"
+                value={Math.round(style.size * 1000) / 10}
+                min={1}
+                max={15}
+                step={0.5}
+                onChange={(v) => updateStyle('size', v / 100)}
+                resetValue={DEFAULT_ADJUSTMENTS.watermarkStyle.size * 100}
+              />
+
+              <div className="flex items-center gap-2">
+                  <input
+                      type="color"
+                      value={style.color}
+                      onChange={(e) => updateStyle('color', e.target.value)}
+                      className="w-8 h-7 bg-transparent border border-white/10 rounded cursor-pointer"
+                      title="Cor do texto"
+                  />
+                  <div className="flex-1">
+                      <Slider
+                        label="Opacidade"
+                        value={Math.round(style.opacity * 100)}
+                        min={0}
+                        max={100}
+                        step={1}
+                        onChange={(v) => updateStyle('opacity', v / 100)}
+                        resetValue={DEFAULT_ADJUSTMENTS.watermarkStyle.opacity * 100}
+                      />
+                  </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                  <input
+                      type="color"
+                      value={style.outlineColor}
+                      onChange={(e) => updateStyle('outlineColor', e.target.value)}
+                      className="w-8 h-7 bg-transparent border border-white/10 rounded cursor-pointer"
+                      title="Cor do contorno"
+                  />
+                  <div className="flex-1">
+                      <Slider
+                        label="Contorno"
+                        value={Math.round(style.outline * 100)}
+                        min={0}
+                        max={20}
+                        step={1}
+                        onChange={(v) => updateStyle('outline', v / 100)}
+                        resetValue={0}
+                      />
+                  </div>
+              </div>
+
+              <Slider
+                label="Sombra"
+                value={Math.round(style.shadow * 100)}
+                min={0}
+                max={50}
+                step={1}
+                onChange={(v) => updateStyle('shadow', v / 100)}
+                resetValue={DEFAULT_ADJUSTMENTS.watermarkStyle.shadow * 100}
+              />
+
+              {/* Background pill */}
+              <div className="bg-white/5 p-2 rounded-lg border border-white/5 space-y-2">
+                  <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                      <input
+                          type="checkbox"
+                          checked={style.background}
+                          onChange={(e) => updateStyle('background', e.target.checked)}
+                          className="accent-violet-500"
+                      />
+                      Fundo arredondado
+                  </label>
+                  {style.background && (
+                      <div className="flex items-center gap-2">
+                          <input
+                              type="color"
+                              value={style.backgroundColor}
+                              onChange={(e) => updateStyle('backgroundColor', e.target.value)}
+                              className="w-8 h-7 bg-transparent border border-white/10 rounded cursor-pointer"
+                              title="Cor do fundo"
+                          />
+                          <div className="flex-1">
+                              <Slider
+                                label="Opacidade do fundo"
+                                value={Math.round(style.backgroundOpacity * 100)}
+                                min={0}
+                                max={100}
+                                step={1}
+                                onChange={(v) => updateStyle('backgroundOpacity', v / 100)}
+                                resetValue={DEFAULT_ADJUSTMENTS.watermarkStyle.backgroundOpacity * 100}
+                              />
+                          </div>
+                      </div>
+                  )}
+              </div>
+
+              {/* Anchor + margin */}
+              <div className="flex items-start gap-3">
+                  <div className="grid grid-cols-2 gap-1 flex-shrink-0" title="Canto">
+                      {WATERMARK_ANCHORS.map(anchor => (
+                          <button
+                              key={anchor}
+                              onClick={() => updateStyle('anchor', anchor)}
+                              className={`w-6 h-6 rounded border flex ${anchor.startsWith('bottom') ? 'items-end' : 'items-start'} ${anchor.endsWith('right') ? 'justify-end' : 'justify-start'} p-0.5 ${style.anchor === anchor ? 'border-violet-500 bg-violet-500/20' : 'border-white/10 hover:border-white/30'}`}
+                          >
+                              <span className={`w-2 h-1 rounded-sm ${style.anchor === anchor ? 'bg-violet-300' : 'bg-gray-500'}`}></span>
+                          </button>
+                      ))}
+                  </div>
+                  <div className="flex-1">
+                      <Slider
+                        label="Margem (%)"
+                        value={Math.round(style.margin * 1000) / 10}
+                        min={0}
+                        max={10}
+                        step={0.5}
+                        onChange={(v) => updateStyle('margin', v / 100)}
+                        resetValue={DEFAULT_ADJUSTMENTS.watermarkStyle.margin * 100}
+                      />
+                  </div>
+              </div>
+          </div>
+        )}
+      </div>
+
+      {/* Tiled Watermark */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-2">
+            <label className="text-xs font-medium text-gray-300 uppercase tracking-wider">Marca d'água em Mosaico</label>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input 
+                type="checkbox" 
+                checked={tiled.enabled} 
+                onChange={(e) => toggleTiled(e.target.checked)}
+                className="sr-only peer"
+              />
+              <div className="w-9 h-5 bg-gray-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-violet-600"></div>
+            </label>
+        </div>
+        <p className="text-[10px] text-gray-500 mb-3">Repete a marca na foto inteira para dificultar recortes.</p>
+
+        {tiled.enabled && (
+          <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-1 bg-black/20 p-1 rounded-lg">
+                  {(['text', 'logo'] as const).map(content => (
+                      <button
+                          key={content}
+                          onClick={() => updateTiled({ content })}
+                          className={`py-1 rounded text-xs transition-colors ${tiled.content === content ? 'bg-violet-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                      >
+                          {content === 'text' ? 'Texto' : 'Logo'}
+                      </button>
+                  ))}
+              </div>
+
+              {tiled.content === 'text' ? (
+                  <input
+                      value={tiled.text}
+                      onChange={(e) => updateTiled({ text: e.target.value })}
+                      placeholder="Imobiliária Exemplo"
+                      className="w-full bg-black/20 border border-white/10 rounded-md p-2 text-sm text-white focus:outline-none focus:border-violet-500 transition-colors"
+                  />
+              ) : (
+                  <>
+                      <input type="file" accept="image/*" ref={tiledLogoInputRef} className="hidden" onChange={onTiledLogoUpload} />
+                      <button 
+                          onClick={() => tiledLogoInputRef.current?.click()}
+                          className="w-full py-2 glass-button rounded-lg border-dashed border-white/20 text-gray-400 text-xs hover:text-white hover:border-violet-500/50 flex items-center justify-center gap-2"
+                      >
+                          {tiled.logo
+                            ? <img src={tiled.logo} className="h-6 max-w-[60%] object-contain" alt="logo" />
+                            : <ImageIcon size={14} />
+                          }
+                          {tiled.logo ? 'Trocar logo' : 'Enviar logo'}
+                      </button>
+                  </>
+              )}
+
+              <Slider
+                label="Ângulo"
+                value={tiled.angle}
+                min={-90}
+                max={90}
+                step={1}
+                onChange={(v) => updateTiled({ angle: v })}
+                resetValue={DEFAULT_ADJUSTMENTS.tiledWatermark.angle}
+              />
+              <Slider
+                label="Tamanho (% da largura)"
+                value={Math.round(tiled.size * 1000) / 10}
+                min={2}
+                max={30}
+                step={0.5}
+                onChange={(v) => updateTiled({ size: v / 100 })}
+                resetValue={DEFAULT_ADJUSTMENTS.tiledWatermark.size * 100}
+              />
+              <Slider
+                label="Espaçamento (%)"
+                value={Math.round(tiled.spacing * 100)}
+                min={2}
+                max={50}
+                step={1}
+                onChange={(v) => updateTiled({ spacing: v / 100 })}
+                resetValue={DEFAULT_ADJUSTMENTS.tiledWatermark.spacing * 100}
+              />
+              <Slider
+                label="Opacidade"
+                value={Math.round(tiled.opacity * 100)}
+                min={5}
+                max={100}
+                step={1}
+                onChange={(v) => updateTiled({ opacity: v / 100 })}
+                resetValue={DEFAULT_ADJUSTMENTS.tiledWatermark.opacity * 100}
+              />
+              <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                  <input
+                      type="checkbox"
+                      checked={tiled.avoidPrivacy}
+                      onChange={(e) => updateTiled({ avoidPrivacy: e.target.checked })}
+                      className="accent-violet-500"
+                  />
+                  Não cobrir áreas de privacidade detectadas
+              </label>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -20,7 +20,21 @@ import {
   ZapOff,
   AlertCircle,
   RotateCcw,
-  Database
+  Database,
+  Clock,
+  FolderOpen,
+  Plus,
+  Crop,
+  RotateCw,
+  FlipHorizontal,
+  FlipVertical,
+  Ruler,
+  Home,
+  Star,
+  Type,
+  ChevronUp,
+  ChevronDown,
+  Settings
 } from 'lucide-react';
 
 export { 
@@ -45,5 +59,19 @@ export {
   ZapOff,
   AlertCircle,
   RotateCcw,
-  Database
+  Database,
+  Clock,
+  FolderOpen,
+  Plus,
+  Crop,
+  RotateCw,
+  FlipHorizontal,
+  FlipVertical,
+  Ruler,
+  Home,
+  Star,
+  Type,
+  ChevronUp,
+  ChevronDown,
+  Settings
 };
\ No newline at end of file
@@ -9,15 +9,57 @@ export const DEFAULT_ADJUSTMENTS: Adjustments = {
   grayscale: 0,
   warmth: 0,
   watermark: '',
+  watermarkStyle: {
+    fontFamily: 'sans-serif',
+    bold: true,
+    italic: false,
+    size: 0.05,
+    color: '#ffffff',
+    opacity: 0.7,
+    outline: 0,
+    outlineColor: '#000000',
+    shadow: 0.08,
+    background: false,
+    backgroundColor: '#000000',
+    backgroundOpacity: 0.5,
+    anchor: 'bottom-right',
+    margin: 0.02,
+  },
+  tiledWatermark: {
+    enabled: false,
+    content: 'text',
+    text: '',
+    logo: null,
+    angle: -30,
+    size: 0.05,
+    spacing: 0.12,
+    opacity: 0.2,
+    avoidPrivacy: true,
+  },
   
-  // Default Overlay Settings
-  overlayImage: null,
-  overlayX: 0.5, // Center
-  overlayY: 0.5, // Center
-  overlayScale: 0.2, // 20% of image size default
-  overlayOpacity: 1.0,
+  layers: [],
 
   privacyBlur: false,
+  redaction: {
+    style: 'pixelate',
+    shape: 'auto',
+    blockSize: 0.025,
+    blurRadius: 0.03,
+    fillColor: '#000000',
+    sticker: 'emoji',
+    emoji: '🙂',
+    logo: null,
+  },
+
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  straighten: 0,
+  crop: null,
+
+  perspectiveV: 0,
+  perspectiveH: 0,
+  perspectiveGuide: null,
 };
 
 export const FILTERS: Record<FilterType, Partial<Adjustments>> = {
@@ -32,4 +74,32 @@ export const FILTERS: Record<FilterType, Partial<Adjustments>> = {
 export const MOCK_PRESETS: Preset[] = [
   { id: 'p1', name: 'Brilho Suave', adjustments: { ...DEFAULT_ADJUSTMENTS, brightness: 110, contrast: 90, blur: 0.5 } },
   { id: 'p2', name: 'Escuro Profundo', adjustments: { ...DEFAULT_ADJUSTMENTS, brightness: 80, contrast: 130, saturation: 80 } },
-];
\ No newline at end of file
+];
+
+// Human readable names used in the history list
+export const ADJUSTMENT_LABELS: Record<keyof Adjustments, string> = {
+  brightness: 'Brilho',
+  contrast: 'Contraste',
+  saturation: 'Saturação',
+  blur: 'Desfoque',
+  sepia: 'Sépia',
+  grayscale: 'P&B',
+  warmth: 'Temperatura',
+  watermark: 'Texto Rodapé',
+  watermarkStyle: 'Estilo do Texto',
+  tiledWatermark: 'Marca d\'água em Mosaico',
+  layers: 'Camadas',
+  privacyBlur: 'Privacidade',
+  redaction: 'Estilo de Ocultação',
+  rotation: 'Girar',
+  flipH: 'Espelhar',
+  flipV: 'Espelhar',
+  straighten: 'Endireitar',
+  crop: 'Recorte',
+  perspectiveV: 'Perspectiva Vertical',
+  perspectiveH: 'Perspectiva Horizontal',
+  perspectiveGuide: 'Guia de Perspectiva',
+};
+
+export const HISTORY_LIMIT = 100;
+export const HISTORY_MERGE_WINDOW_MS = 1200;
@@ -0,0 +1,86 @@
+// Cache of AI answers keyed by the photo's content hash (SHA-256 of the imported bytes),
+// so a photo analyzed before, in this session or an earlier one, isn't uploaded again.
+// The key also holds the provider, model and prompt version: changing any of them misses.
+
+const DB_NAME = 'lumina_ai_cache';
+const DB_VERSION = 1;
+
+const RESULTS = 'results';
+
+interface CachedResult {
+  key: string;
+  value: unknown;
+  createdAt: number;
+}
+
+export interface AiCacheStats {
+  entries: number;
+  hits: number;   // This session
+  misses: number; // This session
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Hits and misses since the page was loaded
+const sessionStats = { hits: 0, misses: 0 };
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(RESULTS)) {
+        db.createObjectStore(RESULTS, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+// Helper: wrap an IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Hex SHA-256 of a blob's bytes
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const getCachedAiResult = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDb();
+  const record = await promisify<CachedResult | undefined>(db.transaction(RESULTS, 'readonly').objectStore(RESULTS).get(key));
+  if (record) sessionStats.hits++;
+  else sessionStats.misses++;
+  return record?.value as T | undefined;
+};
+
+export const putCachedAiResult = async (key: string, value: unknown) => {
+  const db = await openDb();
+  const record: CachedResult = { key, value, createdAt: Date.now() };
+  await promisify(db.transaction(RESULTS, 'readwrite').objectStore(RESULTS).put(record));
+};
+
+export const getAiCacheStats = async (): Promise<AiCacheStats> => {
+  const db = await openDb();
+  const entries = await promisify(db.transaction(RESULTS, 'readonly').objectStore(RESULTS).count());
+  return { entries, ...sessionStats };
+};
+
+export const clearAiCache = async () => {
+  const db = await openDb();
+  await promisify(db.transaction(RESULTS, 'readwrite').objectStore(RESULTS).clear());
+  sessionStats.hits = 0;
+  sessionStats.misses = 0;
+};
@@ -0,0 +1,66 @@
+import { AiImage, AiTask } from './aiProvider';
+import { canvasToBlob, createCanvas, getContext2D } from './canvas';
+import { blobToBase64 } from './imageUtils';
+
+// What is sent to the AI: the photo scaled down to a long edge and re-encoded, instead of
+// the original file (often 8-12 MB from phones). The whole frame is scaled, never cropped or
+// padded, so boxes in 0-1000 of the sent image are the same fractions of the original.
+
+export const AI_INPUT_EDGES: { value: number; label: string }[] = [
+  { value: 768, label: '768 px' },
+  { value: 1024, label: '1024 px' },
+  { value: 1536, label: '1536 px' },
+  { value: 2048, label: '2048 px' },
+  { value: 0, label: 'Original (sem redução)' },
+];
+
+const JPEG_QUALITY = 0.85;
+
+export interface AiUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+// Photos go as JPEG. Background removal needs the alpha channel, so it goes as PNG.
+// maxEdge 0 keeps the original size. A file already in the right format and size is sent as is.
+export const prepareAiImage = async (source: Blob, maxEdge: number, keepAlpha: boolean): Promise<AiImage> => {
+  const mimeType = keepAlpha ? 'image/png' : 'image/jpeg';
+  const bitmap = await createImageBitmap(source);
+  const sourceWidth = bitmap.width;
+  const sourceHeight = bitmap.height;
+  const scale = maxEdge > 0 ? Math.min(1, maxEdge / Math.max(sourceWidth, sourceHeight)) : 1;
+
+  if (scale === 1 && source.type === mimeType) {
+    bitmap.close();
+    return { data: await blobToBase64(source), mimeType, width: sourceWidth, height: sourceHeight, sourceWidth, sourceHeight, sourceBytes: source.size };
+  }
+
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2D(canvas)!;
+  if (!keepAlpha) {
+    // Transparent areas would turn black in the JPEG
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await canvasToBlob(canvas, mimeType, keepAlpha ? undefined : JPEG_QUALITY);
+  return { data: await blobToBase64(blob), mimeType, width, height, sourceWidth, sourceHeight, sourceBytes: source.size };
+};
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+// One line per AI call: what was sent, against the original, and the tokens billed
+export const logAiUsage = (task: AiTask, image: AiImage, usage?: AiUsage) => {
+  const sentBytes = Math.floor(image.data.length * 3 / 4);
+  const tokens = usage ? ` · tokens: ${usage.inputTokens ?? '?'} entrada / ${usage.outputTokens ?? '?'} saída` : '';
+  console.info(
+    `[IA] ${task}: ${image.width}×${image.height} ${image.mimeType}, ${formatBytes(sentBytes)} ` +
+    `(original ${image.sourceWidth}×${image.sourceHeight}, ${formatBytes(image.sourceBytes)})${tokens}`
+  );
+};
@@ -0,0 +1,98 @@
+import { Adjustments, BoundingBox } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockAiProvider';
+
+// Image as sent to the AI, prepared by aiInput (scaled down and re-encoded)
+export interface AiImage {
+  data: string; // Base64, no data URL prefix
+  mimeType: string;
+  width: number;
+  height: number;
+  sourceWidth: number;
+  sourceHeight: number;
+  sourceBytes: number;
+}
+
+// Everything the app asks an AI for
+export interface AiProvider {
+  id: AiProviderId;
+  promptVersions: Record<AiTask, number>; // Bumped when a prompt changes, invalidating cached answers
+  enhance: (image: AiImage, model: string) => Promise<Partial<Adjustments>>;
+  removeBackground: (image: AiImage, model: string) => Promise<string>; // Base64 PNG with alpha
+  detectPrivacy: (image: AiImage, model: string) => Promise<BoundingBox[] | null>; // null = failed, retry later
+}
+
+export type AiProviderId = 'gemini' | 'mock';
+export type AiTask = 'enhance' | 'removeBackground' | 'detectPrivacy';
+
+export interface AiSettings {
+  provider: AiProviderId;
+  models: Record<AiTask, string>;
+  maxInputEdge: number; // Long edge of images sent to the AI, 0 = original size
+}
+
+const SETTINGS_KEY = 'lumina_ai_settings';
+
+export const AI_PROVIDERS: { value: AiProviderId; label: string }[] = [
+  { value: 'gemini', label: 'Google Gemini' },
+  { value: 'mock', label: 'Simulado (offline)' },
+];
+
+export const AI_TASKS: { value: AiTask; label: string }[] = [
+  { value: 'enhance', label: 'Melhoria automática' },
+  { value: 'removeBackground', label: 'Remover fundo' },
+  { value: 'detectPrivacy', label: 'Detecção de rostos e placas' },
+];
+
+const PROVIDERS: Record<AiProviderId, AiProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// AI_PROVIDER=mock in .env.local starts the app on the mock provider (no key needed)
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: process.env.AI_PROVIDER === 'mock' ? 'mock' : 'gemini',
+  models: {
+    enhance: 'gemini-2.5-flash-image',
+    removeBackground: 'gemini-2.5-flash-image',
+    detectPrivacy: 'gemini-2.5-flash-image',
+  },
+  maxInputEdge: 1536,
+};
+
+export const loadAiSettings = (): AiSettings => {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (!saved) return DEFAULT_AI_SETTINGS;
+  const parsed: Partial<AiSettings> = JSON.parse(saved);
+  return {
+    provider: parsed.provider && PROVIDERS[parsed.provider] ? parsed.provider : DEFAULT_AI_SETTINGS.provider,
+    models: { ...DEFAULT_AI_SETTINGS.models, ...parsed.models },
+    maxInputEdge: parsed.maxInputEdge ?? DEFAULT_AI_SETTINGS.maxInputEdge,
+  };
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const getProvider = (settings: AiSettings) => PROVIDERS[settings.provider];
+
+// A model field left blank uses the default
+const getModel = (settings: AiSettings, task: AiTask) =>
+  settings.models[task].trim() || DEFAULT_AI_SETTINGS.models[task];
+
+// Cache key of a task's answer for a photo (see aiCache). The input size is part of it:
+// a larger input may find faces a smaller one missed.
+export const getAiCacheKey = (settings: AiSettings, task: AiTask, contentHash: string) => {
+  const provider = getProvider(settings);
+  return [task, provider.id, getModel(settings, task), `v${provider.promptVersions[task]}`, `e${settings.maxInputEdge}`, contentHash].join(':');
+};
+
+export const analyzeImageForEnhancement = (image: AiImage, settings: AiSettings) =>
+  getProvider(settings).enhance(image, getModel(settings, 'enhance'));
+
+export const removeBackgroundWithAI = (image: AiImage, settings: AiSettings) =>
+  getProvider(settings).removeBackground(image, getModel(settings, 'removeBackground'));
+
+export const detectPrivacyObjects = (image: AiImage, settings: AiSettings) =>
+  getProvider(settings).detectPrivacy(image, getModel(settings, 'detectPrivacy'));
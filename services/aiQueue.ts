@@ -0,0 +1,264 @@
+import { Adjustments, AiJob, AiJobKind, AiQueueState, BoundingBox, ImageFile } from '../types';
+import { getCachedAiResult, putCachedAiResult } from './aiCache';
+import { AiSettings, AiTask, analyzeImageForEnhancement, detectPrivacyObjects, getAiCacheKey, removeBackgroundWithAI } from './aiProvider';
+import { isQuotaError } from './geminiService';
+import { prepareAiImage } from './aiInput';
+
+// Queue for every AI request. Like the history, the state is plain data changed by pure
+// functions; App holds it, persists it and runs one job at a time.
+
+const QUEUE_KEY = 'lumina_ai_queue';
+
+// Token bucket: short bursts of BUCKET_SIZE requests, then one every REFILL_MS
+const BUCKET_SIZE = 3;
+const REFILL_MS = 4000;
+
+// Exponential backoff between attempts, then the job fails and waits for a manual retry
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 120000;
+export const MAX_ATTEMPTS = 5;
+
+// Whole queue pause after the provider reports an exhausted quota
+const QUOTA_PAUSE_MS = 60000;
+
+export const AI_JOB_LABELS: Record<AiJobKind, string> = {
+  detectPrivacy: 'Detecção de privacidade',
+  enhance: 'Melhoria IA',
+  removeBackground: 'Remover fundo',
+};
+
+// Requests the user is waiting on go before background detection
+const KIND_PRIORITY: Record<AiJobKind, number> = {
+  enhance: 2,
+  removeBackground: 2,
+  detectPrivacy: 1,
+};
+
+export const EMPTY_AI_QUEUE: AiQueueState = {
+  jobs: [],
+  tokens: BUCKET_SIZE,
+  tokensUpdatedAt: 0,
+  pausedUntil: 0,
+};
+
+export const isActiveJob = (job: AiJob) => job.status === 'queued' || job.status === 'running' || job.status === 'retrying';
+
+// A reload interrupts the running job; it starts over
+export const loadAiQueue = (): AiQueueState => {
+  const saved = localStorage.getItem(QUEUE_KEY);
+  if (!saved) return EMPTY_AI_QUEUE;
+  const state: AiQueueState = JSON.parse(saved);
+  return {
+    ...state,
+    jobs: state.jobs.map(job => job.status === 'running' ? { ...job, status: 'queued' } : job),
+  };
+};
+
+export const saveAiQueue = (state: AiQueueState) => {
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(state));
+};
+
+const refillTokens = (state: AiQueueState, now: number): AiQueueState => ({
+  ...state,
+  tokens: Math.min(BUCKET_SIZE, state.tokens + Math.max(0, now - state.tokensUpdatedAt) / REFILL_MS),
+  tokensUpdatedAt: now,
+});
+
+export const getBackoffDelay = (attempts: number) =>
+  Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+
+const updateJob = (state: AiQueueState, id: string, patch: Partial<AiJob>): AiQueueState => ({
+  ...state,
+  jobs: state.jobs.map(job => job.id === id ? { ...job, ...patch } : job),
+});
+
+// Ignored while the same request is still queued or running
+export const enqueueAiJob = (
+  state: AiQueueState,
+  kind: AiJobKind,
+  imageId: string,
+  { layerId, bypassCache }: { layerId?: string; bypassCache?: boolean } = {},
+  now = Date.now()
+): AiQueueState => {
+  const isSame = (job: AiJob) => job.kind === kind && job.imageId === imageId && job.layerId === layerId;
+  if (state.jobs.some(job => isSame(job) && isActiveJob(job))) return state;
+  const job: AiJob = {
+    id: crypto.randomUUID(),
+    kind,
+    imageId,
+    layerId,
+    bypassCache,
+    status: 'queued',
+    attempts: 0,
+    nextAttemptAt: 0,
+    createdAt: now,
+  };
+  // A failed or cancelled copy is replaced by the new request
+  return { ...state, jobs: [...state.jobs.filter(j => !isSame(j)), job] };
+};
+
+const getPriority = (job: AiJob, viewImageId: string | null) =>
+  (job.imageId === viewImageId ? 10 : 0) + KIND_PRIORITY[job.kind];
+
+// Job to start now: one at a time, highest priority (the viewed photo first), oldest first.
+// Jobs whose photo isn't loaded (yet) are skipped.
+export const getNextAiJob = (
+  state: AiQueueState,
+  imageIds: Set<string>,
+  viewImageId: string | null,
+  now = Date.now()
+): AiJob | null => {
+  if (state.jobs.some(job => job.status === 'running') || now < state.pausedUntil) return null;
+  if (refillTokens(state, now).tokens < 1) return null;
+  const ready = state.jobs.filter(job =>
+    (job.status === 'queued' || job.status === 'retrying') && job.nextAttemptAt <= now && imageIds.has(job.imageId)
+  );
+  ready.sort((a, b) => getPriority(b, viewImageId) - getPriority(a, viewImageId) || a.createdAt - b.createdAt);
+  return ready[0] || null;
+};
+
+// Time until a waiting job could start (backoff, pause or tokens). null while a job runs
+// (its end wakes the queue) or when nothing waits.
+export const getAiQueueWakeDelay = (state: AiQueueState, imageIds: Set<string>, now = Date.now()): number | null => {
+  if (state.jobs.some(job => job.status === 'running')) return null;
+  const waiting = state.jobs.filter(job => (job.status === 'queued' || job.status === 'retrying') && imageIds.has(job.imageId));
+  if (waiting.length === 0) return null;
+  const tokens = refillTokens(state, now).tokens;
+  const tokenAt = tokens >= 1 ? now : now + (1 - tokens) * REFILL_MS;
+  const jobAt = Math.min(...waiting.map(job => job.nextAttemptAt));
+  return Math.max(0, Math.max(tokenAt, jobAt, state.pausedUntil) - now);
+};
+
+export const startAiJob = (state: AiQueueState, id: string, now = Date.now()): AiQueueState => {
+  const refilled = refillTokens(state, now);
+  const job = state.jobs.find(j => j.id === id);
+  return updateJob({ ...refilled, tokens: refilled.tokens - 1 }, id, {
+    status: 'running',
+    attempts: (job?.attempts || 0) + 1,
+    error: undefined,
+  });
+};
+
+export const completeAiJob = (state: AiQueueState, id: string): AiQueueState => ({
+  ...state,
+  jobs: state.jobs.filter(job => job.id !== id),
+});
+
+// Quota errors pause the whole queue; other errors back off until MAX_ATTEMPTS
+export const failAiJob = (state: AiQueueState, id: string, error: unknown, now = Date.now()): AiQueueState => {
+  const job = state.jobs.find(j => j.id === id);
+  if (!job || job.status !== 'running') return state;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (isQuotaError(error)) {
+    const pausedUntil = now + QUOTA_PAUSE_MS;
+    return updateJob({ ...state, pausedUntil, tokens: 0, tokensUpdatedAt: pausedUntil }, id, {
+      status: 'retrying',
+      nextAttemptAt: pausedUntil,
+      error: message,
+    });
+  }
+  if (job.attempts >= MAX_ATTEMPTS) {
+    return updateJob(state, id, { status: 'failed', error: message });
+  }
+  return updateJob(state, id, {
+    status: 'retrying',
+    nextAttemptAt: now + getBackoffDelay(job.attempts),
+    error: message,
+  });
+};
+
+export const retryAiJob = (state: AiQueueState, id: string): AiQueueState =>
+  updateJob(state, id, { status: 'queued', attempts: 0, nextAttemptAt: 0, error: undefined });
+
+// A running job can't be stopped; its result is dropped when it arrives
+export const cancelAiJob = (state: AiQueueState, id: string): AiQueueState =>
+  updateJob(state, id, { status: 'cancelled' });
+
+// Drops the jobs of photos that are no longer in the workspace, and failed or cancelled
+// jobs with nothing left to do
+export const pruneAiJobs = (state: AiQueueState, images: ImageFile[]): AiQueueState => {
+  const jobs = state.jobs.filter(job => {
+    const image = images.find(img => img.id === job.imageId);
+    return image && (isActiveJob(job) || !isAiJobObsolete(job, image));
+  });
+  return jobs.length === state.jobs.length ? state : { ...state, jobs };
+};
+
+export const removeAiJobs = (state: AiQueueState, imageId: string, kind: AiJobKind): AiQueueState => ({
+  ...state,
+  jobs: state.jobs.filter(job => !(job.imageId === imageId && job.kind === kind)),
+});
+
+// Nothing left to do: detection turned off or already done, layer removed
+export const isAiJobObsolete = (job: AiJob, image: ImageFile) => {
+  switch (job.kind) {
+    case 'detectPrivacy': return !image.adjustments.privacyBlur || !!image.privacyRegions;
+    case 'removeBackground': return !image.adjustments.layers.some(l => l.id === job.layerId && l.kind === 'image');
+    default: return false;
+  }
+};
+
+export type AiJobResult =
+  | { kind: 'detectPrivacy'; boxes: BoundingBox[]; cached: boolean }
+  | { kind: 'enhance'; adjustments: Partial<Adjustments>; cached: boolean }
+  | { kind: 'removeBackground'; layerId: string; src: string };
+
+// Scaled down per the AI settings before upload, see aiInput
+const fetchAiImage = async (url: string, settings: AiSettings, keepAlpha = false) =>
+  prepareAiImage(await (await fetch(url)).blob(), settings.maxInputEdge, keepAlpha);
+
+// Answers about the whole original photo come from the cache when it has them. Photos
+// not hashed yet go to the provider; a failing cache never blocks the request.
+// bypassCache skips the read only, so the new answer replaces the cached one.
+const withCache = async <T>(
+  task: AiTask,
+  image: ImageFile,
+  settings: AiSettings,
+  bypassCache: boolean,
+  run: () => Promise<T>,
+  isCacheable: (value: T) => boolean
+): Promise<{ value: T; cached: boolean }> => {
+  const key = image.contentHash && getAiCacheKey(settings, task, image.contentHash);
+  if (key && !bypassCache) {
+    const hit = await getCachedAiResult<T>(key).catch(err => {
+      console.error("Falha ao ler o cache de IA:", err);
+      return undefined;
+    });
+    if (hit !== undefined) return { value: hit, cached: true };
+  }
+  const value = await run();
+  if (key && isCacheable(value)) {
+    putCachedAiResult(key, value).catch(err => console.error("Falha ao salvar no cache de IA:", err));
+  }
+  return { value, cached: false };
+};
+
+export const runAiJob = async (job: AiJob, image: ImageFile, settings: AiSettings): Promise<AiJobResult> => {
+  switch (job.kind) {
+    case 'detectPrivacy': {
+      const { value: boxes, cached } = await withCache(
+        'detectPrivacy', image, settings, !!job.bypassCache,
+        async () => detectPrivacyObjects(await fetchAiImage(image.originalUrl, settings), settings),
+        boxes => !!boxes
+      );
+      if (!boxes) throw new Error("Falha na detecção.");
+      return { kind: 'detectPrivacy', boxes, cached };
+    }
+    case 'enhance': {
+      // An empty answer means no API key, not "nothing to improve"
+      const { value: adjustments, cached } = await withCache(
+        'enhance', image, settings, !!job.bypassCache,
+        async () => analyzeImageForEnhancement(await fetchAiImage(image.originalUrl, settings), settings),
+        adjustments => Object.keys(adjustments).length > 0
+      );
+      return { kind: 'enhance', adjustments, cached };
+    }
+    case 'removeBackground': {
+      const layer = image.adjustments.layers.find(l => l.id === job.layerId);
+      if (!layer || layer.kind !== 'image') throw new Error("Camada não encontrada.");
+      const base64 = await removeBackgroundWithAI(await fetchAiImage(layer.src, settings, true), settings);
+      return { kind: 'removeBackground', layerId: layer.id, src: `data:image/png;base64,${base64}` };
+    }
+  }
+};
@@ -0,0 +1,77 @@
+import { Adjustments, BoundingBox } from '../types';
+
+// Validation of AI answers. Whatever the provider sends, only in-range values reach the
+// adjustments and the privacy boxes; answers with the wrong shape are rejected.
+
+export class AiInvalidResponseError extends Error {
+  constructor(detail: string) {
+    super(`A IA retornou dados inválidos (${detail}).`);
+    this.name = "AiInvalidResponseError";
+  }
+}
+
+type EnhancementField = 'brightness' | 'contrast' | 'saturation' | 'warmth';
+
+// Ranges asked for in the prompt and the schema
+export const ENHANCEMENT_RANGES: Record<EnhancementField, [number, number]> = {
+  brightness: [50, 150],
+  contrast: [50, 150],
+  saturation: [50, 150],
+  warmth: [0, 50],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const parseJsonResponse = (text: string | undefined): unknown => {
+  if (!text) throw new AiInvalidResponseError('resposta vazia');
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new AiInvalidResponseError('JSON malformado');
+  }
+};
+
+// Every field is required and numeric; values are rounded and clamped to their range
+export const validateEnhancement = (data: unknown): Partial<Adjustments> => {
+  if (!isRecord(data)) throw new AiInvalidResponseError('esperado um objeto');
+  const result: Partial<Adjustments> = {};
+  (Object.keys(ENHANCEMENT_RANGES) as EnhancementField[]).forEach(field => {
+    const value = data[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new AiInvalidResponseError(`campo "${field}" ausente ou não numérico`);
+    }
+    const [min, max] = ENHANCEMENT_RANGES[field];
+    result[field] = Math.round(clamp(value, min, max));
+  });
+  return result;
+};
+
+// [ymin, xmin, ymax, xmax] in 0-1000. Swapped corners are put in order and the box is
+// clamped to the image; boxes with no area left are dropped.
+const toBox = (value: unknown, label: BoundingBox['label']): BoundingBox | null => {
+  if (!Array.isArray(value) || value.length !== 4 || !value.every(v => typeof v === 'number' && Number.isFinite(v))) {
+    throw new AiInvalidResponseError('caixa fora do formato [ymin, xmin, ymax, xmax]');
+  }
+  const [y0, x0, y1, x1] = (value as number[]).map(v => clamp(Math.round(v), 0, 1000));
+  const box = {
+    ymin: Math.min(y0, y1),
+    xmin: Math.min(x0, x1),
+    ymax: Math.max(y0, y1),
+    xmax: Math.max(x0, x1),
+    label,
+  };
+  return box.xmax > box.xmin && box.ymax > box.ymin ? box : null;
+};
+
+export const validatePrivacyBoxes = (data: unknown): BoundingBox[] => {
+  if (!isRecord(data)) throw new AiInvalidResponseError('esperado um objeto');
+  const read = (key: 'faces' | 'plates', label: BoundingBox['label']) => {
+    const boxes = data[key] ?? [];
+    if (!Array.isArray(boxes)) throw new AiInvalidResponseError(`"${key}" não é uma lista`);
+    return boxes.map(b => toBox(b, label)).filter((b): b is BoundingBox => !!b);
+  };
+  return [...read('faces', 'face'), ...read('plates', 'plate')];
+};
@@ -0,0 +1,35 @@
+// Canvas helpers that work both on the main thread (DOM canvas) and inside workers (OffscreenCanvas)
+
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type AnyContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+export type SizedImageSource = CanvasImageSource & { width: number; height: number };
+
+export const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+  return new OffscreenCanvas(width, height);
+};
+
+export const getContext2D = (canvas: AnyCanvas): AnyContext2D | null => {
+  return canvas.getContext('2d') as AnyContext2D | null;
+};
+
+export const canvasToBlob = (canvas: AnyCanvas, type: string, quality?: number): Promise<Blob> => {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) resolve(blob);
+        else reject(new Error("Canvas conversion failed"));
+      },
+      type,
+      quality
+    );
+  });
+};
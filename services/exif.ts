@@ -0,0 +1,238 @@
+import { ExportMetadata, PhotoMetadata } from '../types';
+
+// Minimal JPEG EXIF reader/writer. We only read what we need on import (orientation
+// and capture date) and on export write a fresh segment from a whitelist, so GPS,
+// device serials and everything else in the original file never reach the output.
+
+const SOI = 0xffd8;
+const APP0 = 0xffe0;
+const APP1 = 0xffe1;
+const SOS = 0xffda;
+
+const TAG_IMAGE_DESCRIPTION = 0x010e;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_ARTIST = 0x013b;
+const TAG_COPYRIGHT = 0x8298;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME_DIGITIZED = 0x9004;
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+
+interface ParsedExif {
+  orientation: number;
+  captureDate: string | null;
+}
+
+const readAscii = (view: DataView, offset: number, count: number) => {
+  let out = '';
+  for (let i = 0; i < count; i++) {
+    const c = view.getUint8(offset + i);
+    if (c === 0) break;
+    out += String.fromCharCode(c);
+  }
+  return out;
+};
+
+// Reads one IFD into tag -> { value offset/inline value, count, type }
+const readIfd = (view: DataView, tiff: number, ifdOffset: number, little: boolean) => {
+  const entries = new Map<number, { type: number; count: number; valueOffset: number }>();
+  const start = tiff + ifdOffset;
+  if (start + 2 > view.byteLength) return entries;
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    entries.set(view.getUint16(entry, little), {
+      type: view.getUint16(entry + 2, little),
+      count: view.getUint32(entry + 4, little),
+      valueOffset: entry + 8,
+    });
+  }
+  return entries;
+};
+
+const parseTiff = (view: DataView, tiff: number): ParsedExif => {
+  const little = view.getUint16(tiff) === 0x4949;
+  const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+
+  const asciiValue = (entry?: { count: number; valueOffset: number }) => {
+    if (!entry) return null;
+    const offset = entry.count > 4 ? tiff + view.getUint32(entry.valueOffset, little) : entry.valueOffset;
+    return readAscii(view, offset, entry.count) || null;
+  };
+
+  const orientationEntry = ifd0.get(TAG_ORIENTATION);
+  const orientation = orientationEntry ? view.getUint16(orientationEntry.valueOffset, little) : 1;
+
+  let captureDate = asciiValue(ifd0.get(TAG_DATE_TIME));
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  if (exifPointer) {
+    const exifIfd = readIfd(view, tiff, view.getUint32(exifPointer.valueOffset, little), little);
+    captureDate = asciiValue(exifIfd.get(TAG_DATE_TIME_ORIGINAL)) || captureDate;
+  }
+
+  return { orientation: orientation >= 1 && orientation <= 8 ? orientation : 1, captureDate };
+};
+
+export const readExif = (buffer: ArrayBuffer): ParsedExif | null => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== SOI) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if (marker === SOS || (marker & 0xff00) !== 0xff00) break;
+    const length = view.getUint16(offset + 2);
+    if (marker === APP1 && readAscii(view, offset + 4, 4) === 'Exif') {
+      try {
+        return parseTiff(view, offset + 10);
+      } catch {
+        return null; // Truncated or malformed segment
+      }
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// APP1 (EXIF) is at most 64 KB and sits near the start of the file, after SOI and APP0
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+// Phones store the sensor orientation in EXIF instead of rotating pixels. Once the
+// pixels go through a canvas the tag is gone, so bake the rotation into the file on
+// import and keep the rest of what we care about as PhotoMetadata.
+export const normalizeImport = async (file: File): Promise<{ blob: Blob; metadata: PhotoMetadata }> => {
+  const exif = file.type === 'image/jpeg' ? readExif(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer()) : null;
+  const metadata: PhotoMetadata = { captureDate: exif?.captureDate ?? null };
+
+  if (!exif || exif.orientation === 1) return { blob: file, metadata };
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  try {
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(b => b ? resolve(b) : reject(new Error("Canvas conversion failed")), 'image/jpeg', 0.95);
+    });
+    return { blob, metadata };
+  } finally {
+    // Frees the full-size backing store now instead of at the next GC
+    canvas.width = canvas.height = 0;
+  }
+};
+
+interface TagValue {
+  tag: number;
+  type: number;
+  value: number | string;
+}
+
+const asciiBytes = (text: string) => new TextEncoder().encode(text + '\0');
+
+// Writes an IFD at `start`; returns the offset right after its data area
+const writeIfd = (view: DataView, bytes: Uint8Array, start: number, tags: TagValue[], nextIfd = 0) => {
+  let dataOffset = start + 2 + tags.length * 12 + 4;
+  view.setUint16(start, tags.length, true);
+
+  tags.forEach((t, i) => {
+    const entry = start + 2 + i * 12;
+    view.setUint16(entry, t.tag, true);
+    view.setUint16(entry + 2, t.type, true);
+    if (t.type === TYPE_ASCII) {
+      const data = asciiBytes(String(t.value));
+      view.setUint32(entry + 4, data.length, true);
+      if (data.length <= 4) {
+        bytes.set(data, entry + 8);
+      } else {
+        view.setUint32(entry + 8, dataOffset, true);
+        bytes.set(data, dataOffset);
+        dataOffset += data.length + (data.length % 2); // Word aligned
+      }
+    } else {
+      view.setUint32(entry + 4, 1, true);
+      if (t.type === TYPE_SHORT) view.setUint16(entry + 8, Number(t.value), true);
+      else view.setUint32(entry + 8, Number(t.value), true);
+    }
+  });
+  view.setUint32(start + 2 + tags.length * 12, nextIfd, true);
+  return dataOffset;
+};
+
+const ifdSize = (tags: TagValue[]) =>
+  2 + tags.length * 12 + 4 +
+  tags.reduce((sum, t) => {
+    if (t.type !== TYPE_ASCII) return sum;
+    const length = asciiBytes(String(t.value)).length;
+    return sum + (length > 4 ? length + (length % 2) : 0);
+  }, 0);
+
+// Builds a complete APP1 segment (marker included) from the whitelisted fields
+export const buildExifSegment = (photo: PhotoMetadata | undefined, exportMetadata: ExportMetadata): Uint8Array => {
+  const ifd0: TagValue[] = [];
+  const exif: TagValue[] = [];
+
+  if (exportMetadata.writeCopyright && exportMetadata.description) {
+    ifd0.push({ tag: TAG_IMAGE_DESCRIPTION, type: TYPE_ASCII, value: exportMetadata.description });
+  }
+  // Pixels are already upright, see normalizeImport
+  ifd0.push({ tag: TAG_ORIENTATION, type: TYPE_SHORT, value: 1 });
+  if (photo?.captureDate) {
+    ifd0.push({ tag: TAG_DATE_TIME, type: TYPE_ASCII, value: photo.captureDate });
+    exif.push({ tag: TAG_DATE_TIME_ORIGINAL, type: TYPE_ASCII, value: photo.captureDate });
+    exif.push({ tag: TAG_DATE_TIME_DIGITIZED, type: TYPE_ASCII, value: photo.captureDate });
+  }
+  if (exportMetadata.writeCopyright && exportMetadata.artist) {
+    ifd0.push({ tag: TAG_ARTIST, type: TYPE_ASCII, value: exportMetadata.artist });
+  }
+  if (exportMetadata.writeCopyright && exportMetadata.copyright) {
+    ifd0.push({ tag: TAG_COPYRIGHT, type: TYPE_ASCII, value: exportMetadata.copyright });
+  }
+  if (exif.length > 0) {
+    ifd0.push({ tag: TAG_EXIF_IFD, type: TYPE_LONG, value: 0 }); // Patched below
+  }
+
+  const tiffSize = 8 + ifdSize(ifd0) + (exif.length > 0 ? ifdSize(exif) : 0);
+  const segment = new Uint8Array(4 + 6 + tiffSize);
+  const view = new DataView(segment.buffer);
+
+  view.setUint16(0, APP1);
+  view.setUint16(2, segment.length - 2);
+  segment.set([0x45, 0x78, 0x69, 0x66, 0, 0], 4); // "Exif\0\0"
+
+  // TIFF offsets are relative to the header, write into a view starting there
+  const tiff = new Uint8Array(segment.buffer, 10);
+  const tiffView = new DataView(segment.buffer, 10);
+  tiffView.setUint16(0, 0x4949); // "II", little endian
+  tiffView.setUint16(2, 42, true);
+  tiffView.setUint32(4, 8, true);
+
+  const exifIfdOffset = 8 + ifdSize(ifd0);
+  const pointer = ifd0.find(t => t.tag === TAG_EXIF_IFD);
+  if (pointer) pointer.value = exifIfdOffset;
+
+  writeIfd(tiffView, tiff, 8, ifd0);
+  if (exif.length > 0) writeIfd(tiffView, tiff, exifIfdOffset, exif);
+
+  return segment;
+};
+
+// Inserts the segment into a canvas-encoded JPEG (which carries no EXIF of its own),
+// right after the JFIF APP0 header when there is one
+export const insertExif = async (jpeg: Blob, segment: Uint8Array): Promise<Blob> => {
+  const buffer = await jpeg.arrayBuffer();
+  const view = new DataView(buffer);
+  if (view.getUint16(0) !== SOI) return jpeg;
+
+  let insertAt = 2;
+  if (view.getUint16(2) === APP0) insertAt = 4 + view.getUint16(4);
+
+  return new Blob([buffer.slice(0, insertAt), segment, buffer.slice(insertAt)], { type: 'image/jpeg' });
+};
@@ -0,0 +1,231 @@
+import { ExportFormat, ExportMetadata, ExportSettings, PhotoMetadata } from '../types';
+import { AnyCanvas, canvasToBlob, createCanvas, getContext2D } from './canvas';
+import { buildExifSegment, insertExif } from './exif';
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'jpeg',
+  keepTransparency: false,
+  maxLongEdge: null,
+  quality: 0.9,
+  targetKB: null,
+  aspectRatio: null,
+  fit: 'crop',
+  padColor: '#ffffff',
+};
+
+export const DEFAULT_EXPORT_METADATA: ExportMetadata = {
+  writeCopyright: false,
+  artist: '',
+  copyright: '',
+  description: '',
+};
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; mimeType: string; extension: string; lossy: boolean }[] = [
+  { value: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true },
+  { value: 'webp', label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true },
+  { value: 'avif', label: 'AVIF', mimeType: 'image/avif', extension: 'avif', lossy: true },
+  { value: 'png', label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false },
+];
+
+export const LONG_EDGE_PRESETS: { label: string; value: number | null }[] = [
+  { label: 'Original', value: null },
+  { label: '4096 px', value: 4096 },
+  { label: '2560 px', value: 2560 },
+  { label: '1920 px', value: 1920 },
+  { label: '1280 px', value: 1280 },
+  { label: '1080 px', value: 1080 },
+];
+
+const SETTINGS_KEY = 'lumina_export_settings';
+const METADATA_KEY = 'lumina_export_metadata';
+
+// Quality search bounds for the "target max KB" mode
+const MIN_QUALITY = 0.3;
+const MAX_QUALITY = 0.95;
+const SEARCH_STEPS = 7;
+
+export const getFormatInfo = (format: ExportFormat) => EXPORT_FORMATS.find(f => f.value === format) || EXPORT_FORMATS[0];
+
+export const getExtensionForMime = (mimeType: string) =>
+  (EXPORT_FORMATS.find(f => f.mimeType === mimeType) || EXPORT_FORMATS[0]).extension;
+
+// Replaces the extension of a file name with the one of the exported format
+export const withExtension = (name: string, mimeType: string) => {
+  const base = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+  return `${base}.${getExtensionForMime(mimeType)}`;
+};
+
+export const loadExportSettings = (): ExportSettings => {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  return saved ? { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_EXPORT_SETTINGS;
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Brokerage-wide, applies to every export and profile
+export const loadExportMetadata = (): ExportMetadata => {
+  const saved = localStorage.getItem(METADATA_KEY);
+  return saved ? { ...DEFAULT_EXPORT_METADATA, ...JSON.parse(saved) } : DEFAULT_EXPORT_METADATA;
+};
+
+export const saveExportMetadata = (metadata: ExportMetadata) => {
+  localStorage.setItem(METADATA_KEY, JSON.stringify(metadata));
+};
+
+// Browsers fall back to PNG for encoders they lack (e.g. AVIF), so probe first
+export const isFormatSupported = (format: ExportFormat): boolean => {
+  if (format === 'jpeg' || format === 'png') return true;
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 1;
+  return canvas.toDataURL(getFormatInfo(format).mimeType).startsWith(`data:${getFormatInfo(format).mimeType}`);
+};
+
+// Transparency scan on a small copy of the canvas. Blur and straighten leave soft alpha
+// along the edges of ordinary photos, so the border is skipped and a few stray pixels
+// don't count: only real transparent areas (cut-out subjects, PNG sources) switch to PNG.
+const TRANSPARENCY_SAMPLE_EDGE = 256;
+const TRANSPARENCY_BORDER = 2;
+const TRANSPARENT_ALPHA = 250;
+const MIN_TRANSPARENT_SHARE = 0.01;
+
+export const hasTransparency = (canvas: AnyCanvas): boolean => {
+  const scale = Math.min(1, TRANSPARENCY_SAMPLE_EDGE / Math.max(canvas.width, canvas.height));
+  const sample = createCanvas(Math.max(1, Math.round(canvas.width * scale)), Math.max(1, Math.round(canvas.height * scale)));
+  const ctx = getContext2D(sample);
+  if (!ctx) return false;
+  ctx.drawImage(canvas, 0, 0, sample.width, sample.height);
+  const data = ctx.getImageData(0, 0, sample.width, sample.height).data;
+
+  let transparent = 0;
+  let counted = 0;
+  for (let y = TRANSPARENCY_BORDER; y < sample.height - TRANSPARENCY_BORDER; y++) {
+    for (let x = TRANSPARENCY_BORDER; x < sample.width - TRANSPARENCY_BORDER; x++) {
+      counted++;
+      if (data[(y * sample.width + x) * 4 + 3] < TRANSPARENT_ALPHA) transparent++;
+    }
+  }
+  return counted > 0 && transparent / counted >= MIN_TRANSPARENT_SHARE;
+};
+
+// High-quality downscale: halves the image step by step before the final resize,
+// which avoids the aliasing of a single large drawImage reduction
+export const downscaleCanvas = (canvas: AnyCanvas, maxLongEdge: number | null): AnyCanvas => {
+  if (!maxLongEdge) return canvas;
+  const scale = maxLongEdge / Math.max(canvas.width, canvas.height);
+  if (scale >= 1) return canvas;
+
+  const targetW = Math.max(1, Math.round(canvas.width * scale));
+  const targetH = Math.max(1, Math.round(canvas.height * scale));
+  let current = canvas;
+
+  while (current.width / 2 >= targetW && current.height / 2 >= targetH) {
+    const half = createCanvas(Math.round(current.width / 2), Math.round(current.height / 2));
+    const hCtx = getContext2D(half)!;
+    hCtx.imageSmoothingEnabled = true;
+    hCtx.imageSmoothingQuality = 'high';
+    hCtx.drawImage(current, 0, 0, half.width, half.height);
+    current = half;
+  }
+
+  if (current.width === targetW && current.height === targetH) return current;
+  const out = createCanvas(targetW, targetH);
+  const oCtx = getContext2D(out)!;
+  oCtx.imageSmoothingEnabled = true;
+  oCtx.imageSmoothingQuality = 'high';
+  oCtx.drawImage(current, 0, 0, targetW, targetH);
+  return out;
+};
+
+// Center crop or letterbox the canvas to the requested aspect ratio
+export const fitToAspect = (canvas: AnyCanvas, settings: ExportSettings): AnyCanvas => {
+  const { aspectRatio } = settings;
+  if (!aspectRatio) return canvas;
+  const current = canvas.width / canvas.height;
+  if (Math.abs(current - aspectRatio) < 0.005) return canvas;
+
+  const size = getFittedSize(canvas.width, canvas.height, settings);
+  const out = createCanvas(size.width, size.height);
+  const ctx = getContext2D(out)!;
+  if (settings.fit === 'pad') {
+    ctx.fillStyle = settings.padColor;
+    ctx.fillRect(0, 0, out.width, out.height);
+  }
+  ctx.drawImage(canvas, (out.width - canvas.width) / 2, (out.height - canvas.height) / 2);
+  return out;
+};
+
+// Size after fitToAspect, before any downscale
+export const getFittedSize = (width: number, height: number, settings: ExportSettings) => {
+  const { aspectRatio, fit } = settings;
+  if (!aspectRatio) return { width, height };
+  const wider = width / height > aspectRatio;
+  if (fit === 'crop') {
+    return wider
+      ? { width: Math.round(height * aspectRatio), height }
+      : { width, height: Math.round(width / aspectRatio) };
+  }
+  return wider
+    ? { width, height: Math.round(width / aspectRatio) }
+    : { width: Math.round(height * aspectRatio), height };
+};
+
+// Final pixel size of an export, given the size the render core produces
+export const getExportSize = (width: number, height: number, settings: ExportSettings) => {
+  const fitted = getFittedSize(width, height, settings);
+  const scale = settings.maxLongEdge ? Math.min(1, settings.maxLongEdge / Math.max(fitted.width, fitted.height)) : 1;
+  return {
+    width: Math.max(1, Math.round(fitted.width * scale)),
+    height: Math.max(1, Math.round(fitted.height * scale)),
+  };
+};
+
+// Encodes the rendered canvas following the export settings. JPEGs get a fresh EXIF
+// segment (capture date, optional copyright fields) and nothing else from the original.
+export const encodeCanvas = async (
+  canvas: AnyCanvas,
+  settings: ExportSettings,
+  photo?: PhotoMetadata,
+  exportMetadata: ExportMetadata = DEFAULT_EXPORT_METADATA
+): Promise<Blob> => {
+  const blob = await encodePixels(canvas, settings);
+  if (blob.type !== 'image/jpeg') return blob;
+  return insertExif(blob, buildExifSegment(photo, exportMetadata));
+};
+
+// With targetKB the quality is binary-searched for the largest file that still fits
+const encodePixels = async (canvas: AnyCanvas, settings: ExportSettings): Promise<Blob> => {
+  const resized = downscaleCanvas(fitToAspect(canvas, settings), settings.maxLongEdge);
+
+  const usePng = settings.format === 'png' || (settings.keepTransparency && hasTransparency(resized));
+  const format = getFormatInfo(usePng ? 'png' : settings.format);
+
+  let blob = await canvasToBlob(resized, format.mimeType, settings.quality);
+  // Unsupported encoder: the browser silently returns PNG, use JPEG instead
+  if (blob.type !== format.mimeType) {
+    blob = await canvasToBlob(resized, 'image/jpeg', settings.quality);
+  }
+
+  if (!settings.targetKB || !format.lossy || blob.size <= settings.targetKB * 1024) return blob;
+
+  const mimeType = blob.type;
+  const maxBytes = settings.targetKB * 1024;
+  let low = MIN_QUALITY;
+  let high = Math.min(MAX_QUALITY, settings.quality);
+  let best: Blob | null = null;
+
+  for (let step = 0; step < SEARCH_STEPS; step++) {
+    const quality = (low + high) / 2;
+    const candidate = await canvasToBlob(resized, mimeType, quality);
+    if (candidate.size <= maxBytes) {
+      best = candidate;
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+
+  // Nothing fits: return the smallest we are willing to produce
+  return best || canvasToBlob(resized, mimeType, MIN_QUALITY);
+};
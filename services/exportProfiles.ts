@@ -0,0 +1,115 @@
+import { ExportProfile, ImageFile, PhotoValidation, ProfileValidation } from '../types';
+import { computeGeometry } from './geometry';
+import { getPerspectiveTransform, getWarpedSize } from './perspective';
+import { DEFAULT_EXPORT_SETTINGS, getExportSize, getFormatInfo } from './exportEncoder';
+import { sanitizeFileName } from './fileNaming';
+import { loadImage } from './imageUtils';
+
+const PROFILES_KEY = 'lumina_export_profiles';
+
+// Starting points for the portals we publish to. Portals change their rules from
+// time to time, so users can copy one of these into an editable profile.
+export const BUILT_IN_PROFILES: ExportProfile[] = [
+  {
+    id: 'builtin-zap',
+    name: 'ZAP / Viva Real',
+    builtIn: true,
+    settings: { ...DEFAULT_EXPORT_SETTINGS, format: 'jpeg', maxLongEdge: 1920, quality: 0.85, targetKB: 5000, aspectRatio: 4 / 3, fit: 'pad' },
+    minWidth: 800,
+    minHeight: 600,
+    maxPhotos: 50,
+    fileNameTemplate: 'zap_{codigo_imovel}_{seq:02}',
+  },
+  {
+    id: 'builtin-olx',
+    name: 'OLX',
+    builtIn: true,
+    settings: { ...DEFAULT_EXPORT_SETTINGS, format: 'jpeg', maxLongEdge: 1600, quality: 0.85, targetKB: 2000 },
+    minWidth: 640,
+    minHeight: 480,
+    maxPhotos: 20,
+    fileNameTemplate: 'olx_{codigo_imovel}_{seq:02}',
+  },
+  {
+    id: 'builtin-instagram',
+    name: 'Instagram (4:5)',
+    builtIn: true,
+    settings: { ...DEFAULT_EXPORT_SETTINGS, format: 'jpeg', maxLongEdge: 1350, quality: 0.9, aspectRatio: 4 / 5, fit: 'crop' },
+    minWidth: 1080,
+    minHeight: 1350,
+    maxPhotos: 10,
+    fileNameTemplate: 'insta_{seq:02}',
+  },
+  {
+    id: 'builtin-web',
+    name: 'Site (WebP leve)',
+    builtIn: true,
+    settings: { ...DEFAULT_EXPORT_SETTINGS, format: 'webp', maxLongEdge: 1280, quality: 0.8, targetKB: 300 },
+    minWidth: null,
+    minHeight: null,
+    maxPhotos: null,
+    fileNameTemplate: '{codigo_imovel}_{room}_{seq:02}',
+  },
+];
+
+export const loadUserProfiles = (): ExportProfile[] => {
+  const saved = localStorage.getItem(PROFILES_KEY);
+  if (!saved) return [];
+  // Profiles saved before filename templates had a plain prefix
+  return (JSON.parse(saved) as (ExportProfile & { fileNamePrefix?: string })[]).map(({ fileNamePrefix, ...p }) => ({
+    ...p,
+    fileNameTemplate: p.fileNameTemplate ?? `${fileNamePrefix ?? 'foto_'}{seq:02}`,
+    settings: { ...DEFAULT_EXPORT_SETTINGS, ...p.settings },
+  }));
+};
+
+export const saveUserProfiles = (profiles: ExportProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles.filter(p => !p.builtIn)));
+};
+
+// Folder inside the ZIP holding the files of one profile
+export const getProfileFolder = (profile: ExportProfile) => sanitizeFileName(profile.name.toLowerCase());
+
+// Size the render core will produce for an image, before export fitting/downscaling
+const getRenderedSize = async (image: ImageFile) => {
+  const img = await loadImage(image.originalUrl);
+  const perspective = getPerspectiveTransform(image.adjustments);
+  const source = perspective ? getWarpedSize(img.naturalWidth, img.naturalHeight, perspective) : { width: img.naturalWidth, height: img.naturalHeight };
+  const geometry = computeGeometry(source.width, source.height, image.adjustments);
+  return { width: geometry.width, height: geometry.height };
+};
+
+// Checks the selection against the profile rules before anything is rendered.
+// File size can only be known after encoding, see checkFileSizes.
+export const validateProfile = async (images: ImageFile[], profile: ExportProfile): Promise<ProfileValidation> => {
+  const errors: string[] = [];
+  if (profile.maxPhotos && images.length > profile.maxPhotos) {
+    errors.push(`${images.length} fotos selecionadas, o limite é ${profile.maxPhotos}.`);
+  }
+
+  const photos: PhotoValidation[] = [];
+  for (const image of images) {
+    const issues: string[] = [];
+    try {
+      const rendered = await getRenderedSize(image);
+      const out = getExportSize(rendered.width, rendered.height, profile.settings);
+      if ((profile.minWidth && out.width < profile.minWidth) || (profile.minHeight && out.height < profile.minHeight)) {
+        issues.push(`Resolução ${out.width}×${out.height} abaixo do mínimo ${profile.minWidth ?? 0}×${profile.minHeight ?? 0}.`);
+      }
+    } catch (e) {
+      issues.push("Não foi possível ler a imagem.");
+    }
+    if (issues.length > 0) photos.push({ id: image.id, name: image.name, issues });
+  }
+
+  return { profileId: profile.id, errors, photos };
+};
+
+// After encoding: files the quality search could not bring under the profile limit
+export const checkFileSizes = (profile: ExportProfile, files: { name: string; blob: Blob }[]): string[] => {
+  const { targetKB } = profile.settings;
+  if (!targetKB || !getFormatInfo(profile.settings.format).lossy) return [];
+  return files
+    .filter(f => f.blob.size > targetKB * 1024)
+    .map(f => `${profile.name}: ${f.name} tem ${Math.round(f.blob.size / 1024)} KB (máx. ${targetKB} KB).`);
+};
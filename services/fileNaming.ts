@@ -0,0 +1,90 @@
+import { FileNamingSettings } from '../types';
+
+export const DEFAULT_FILE_NAMING: FileNamingSettings = {
+  template: 'edited_{original}',
+  zipName: 'lumina_fotos_editadas',
+};
+
+export const FILE_NAME_TOKENS: { token: string; description: string }[] = [
+  { token: '{codigo_imovel}', description: 'Código do imóvel' },
+  { token: '{seq:02}', description: 'Posição na faixa (02 = dois dígitos)' },
+  { token: '{room}', description: 'Cômodo' },
+  { token: '{original}', description: 'Nome original, sem extensão' },
+  { token: '{date}', description: 'Data da foto (AAAA-MM-DD)' },
+  { token: '{profile}', description: 'Perfil de exportação' },
+];
+
+export const ROOM_SUGGESTIONS = [
+  'Fachada', 'Sala', 'Cozinha', 'Quarto', 'Suíte', 'Banheiro', 'Varanda', 'Área de Serviço', 'Garagem', 'Área Externa', 'Piscina', 'Vista',
+];
+
+const NAMING_KEY = 'lumina_file_naming';
+
+export interface FileNameContext {
+  listingCode?: string;
+  seq?: number;           // 1-based, follows the thumbnail strip
+  room?: string;
+  original?: string;      // Original file name, extension included or not
+  date?: Date;
+  profile?: string;
+}
+
+export const loadFileNaming = (): FileNamingSettings => {
+  const saved = localStorage.getItem(NAMING_KEY);
+  return saved ? { ...DEFAULT_FILE_NAMING, ...JSON.parse(saved) } : DEFAULT_FILE_NAMING;
+};
+
+export const saveFileNaming = (naming: FileNamingSettings) => {
+  localStorage.setItem(NAMING_KEY, JSON.stringify(naming));
+};
+
+// EXIF dates look like "2024:05:01 10:20:30"
+export const parseCaptureDate = (captureDate: string | null | undefined): Date | undefined => {
+  const match = captureDate?.match(/^(\d{4}):(\d{2}):(\d{2})/);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : undefined;
+};
+
+const stripExtension = (name: string) => name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+
+const formatDate = (date: Date, format = 'YYYY-MM-DD') =>
+  format
+    .replace('YYYY', String(date.getFullYear()))
+    .replace('MM', String(date.getMonth() + 1).padStart(2, '0'))
+    .replace('DD', String(date.getDate()).padStart(2, '0'));
+
+// Portals reject spaces and accents in file names
+export const sanitizeFileName = (name: string) =>
+  name
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9_.-]+/g, '_')
+    .replace(/([_-])[_-]+/g, '$1')
+    .replace(/^[_.-]+|[_.-]+$/g, '');
+
+// Expands {token} and {token:format}. Empty tokens collapse with their separators,
+// so "{codigo_imovel}_{room}_{seq:02}" without a room gives "AP123_01".
+export const formatFileName = (template: string, ctx: FileNameContext): string => {
+  const expanded = template.replace(/\{(\w+)(?::([^}]+))?\}/g, (_, token: string, format?: string) => {
+    switch (token) {
+      case 'codigo_imovel': return ctx.listingCode || '';
+      case 'seq': return ctx.seq !== undefined ? String(ctx.seq).padStart(format ? format.length : 1, '0') : '';
+      case 'room': return ctx.room || '';
+      case 'original': return ctx.original ? stripExtension(ctx.original) : '';
+      case 'date': return formatDate(ctx.date || new Date(), format);
+      case 'profile': return ctx.profile || '';
+      default: return '';
+    }
+  });
+  return sanitizeFileName(expanded);
+};
+
+// Templates without {seq} or {original} can produce the same name twice
+export const makeUnique = (names: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return names.map(name => {
+    const count = seen.get(name) || 0;
+    seen.set(name, count + 1);
+    if (count === 0) return name;
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? `${name.slice(0, dot)}_${count + 1}${name.slice(dot)}` : `${name}_${count + 1}`;
+  });
+};
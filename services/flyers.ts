@@ -0,0 +1,105 @@
+import { FlyerElement, FlyerTemplate, Listing } from '../types';
+import { LISTING_STATUSES, PROPERTY_TYPES } from './listings';
+
+const TEMPLATES_KEY = 'lumina_flyer_templates';
+
+export const FLYER_TOKENS: { token: string; description: string }[] = [
+  { token: '{preco}', description: 'Preço (R$)' },
+  { token: '{quartos}', description: 'Quartos' },
+  { token: '{area}', description: 'Área (m²)' },
+  { token: '{status}', description: 'Status (NOVO, VENDIDO...)' },
+  { token: '{tipo}', description: 'Tipo do imóvel' },
+  { token: '{endereco}', description: 'Endereço' },
+  { token: '{codigo}', description: 'Código do imóvel' },
+];
+
+export const FLYER_ELEMENT_LABELS: Record<FlyerElement['kind'], string> = {
+  frame: 'Moldura',
+  ribbon: 'Faixa de canto',
+  infoBar: 'Barra de informações',
+};
+
+export const createFlyerElement = (kind: FlyerElement['kind']): FlyerElement => {
+  const id = crypto.randomUUID();
+  switch (kind) {
+    case 'frame':
+      return { id, kind, color: '#ffffff', width: 0.03 };
+    case 'ribbon':
+      return { id, kind, corner: 'top-right', text: '{status}', color: '#dc2626', textColor: '#ffffff' };
+    case 'infoBar':
+      return { id, kind, position: 'bottom', text: '{preco} · {quartos} quartos · {area} m²', size: 0.05, color: '#000000', opacity: 0.65, textColor: '#ffffff' };
+  }
+};
+
+// Starting points; users copy them into their own templates to edit
+export const BUILT_IN_TEMPLATES: FlyerTemplate[] = [
+  {
+    id: 'builtin-info',
+    name: 'Faixa de informações',
+    createdAt: 0,
+    builtIn: true,
+    elements: [
+      { id: 'info', kind: 'infoBar', position: 'bottom', text: '{preco}\n{quartos} quartos · {area} m² · {endereco}', size: 0.05, color: '#000000', opacity: 0.65, textColor: '#ffffff' },
+      { id: 'ribbon', kind: 'ribbon', corner: 'top-right', text: '{status}', color: '#dc2626', textColor: '#ffffff' },
+    ],
+  },
+  {
+    id: 'builtin-frame',
+    name: 'Moldura clássica',
+    createdAt: 0,
+    builtIn: true,
+    elements: [
+      { id: 'frame', kind: 'frame', color: '#ffffff', width: 0.03 },
+      { id: 'top', kind: 'infoBar', position: 'top', text: '{tipo} · {endereco}', size: 0.04, color: '#ffffff', opacity: 0.9, textColor: '#111827' },
+      { id: 'bottom', kind: 'infoBar', position: 'bottom', text: '{preco} · {quartos} quartos · {area} m²', size: 0.05, color: '#7c3aed', opacity: 0.9, textColor: '#ffffff' },
+      { id: 'ribbon', kind: 'ribbon', corner: 'top-left', text: '{status}', color: '#f59e0b', textColor: '#111827' },
+    ],
+  },
+  {
+    id: 'builtin-ribbon',
+    name: 'Somente faixa',
+    createdAt: 0,
+    builtIn: true,
+    elements: [
+      { id: 'ribbon', kind: 'ribbon', corner: 'top-right', text: '{status}', color: '#dc2626', textColor: '#ffffff' },
+    ],
+  },
+];
+
+export const loadFlyerTemplates = (): FlyerTemplate[] => {
+  const saved = localStorage.getItem(TEMPLATES_KEY);
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const saveFlyerTemplates = (templates: FlyerTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates.filter(t => !t.builtIn)));
+};
+
+const formatNumber = (value: number | null, options?: Intl.NumberFormatOptions) =>
+  value === null ? '' : new Intl.NumberFormat('pt-BR', options).format(value);
+
+export const getListingFields = (listing: Listing): Record<string, string> => ({
+  preco: formatNumber(listing.price, { style: 'currency', currency: 'BRL', maximumFractionDigits: 0 }),
+  quartos: formatNumber(listing.bedrooms),
+  area: formatNumber(listing.area),
+  status: LISTING_STATUSES.find(s => s.value === listing.status)?.label || '',
+  tipo: PROPERTY_TYPES.find(t => t.value === listing.type)?.label || '',
+  endereco: listing.address,
+  codigo: listing.code,
+});
+
+// Fills the tokens of each line. Parts separated by "·" or "|" whose tokens are all
+// empty are dropped, so a missing area doesn't leave a dangling " m²".
+export const formatFlyerText = (text: string, listing: Listing): string[] => {
+  const fields = getListingFields(listing);
+  return text.split('\n')
+    .map(line => line.split(/\s*[·|]\s*/)
+      .filter(part => {
+        const tokens = part.match(/\{(\w+)\}/g);
+        return !tokens || tokens.some(t => fields[t.slice(1, -1)]);
+      })
+      .map(part => part.replace(/\{(\w+)\}/g, (match, key: string) => fields[key] ?? match).trim())
+      .filter(Boolean)
+      .join(' · '))
+    .filter(Boolean);
+};
@@ -0,0 +1,75 @@
+import { Adjustments, BrandFont, WatermarkStyle } from '../types';
+
+// Families available everywhere; uploaded brand fonts are listed after these
+export const SYSTEM_FONTS: { family: string; label: string }[] = [
+  { family: 'sans-serif', label: 'Sans Serif' },
+  { family: 'serif', label: 'Serif' },
+  { family: 'Arial', label: 'Arial' },
+  { family: 'Georgia', label: 'Georgia' },
+  { family: 'Verdana', label: 'Verdana' },
+  { family: 'Trebuchet MS', label: 'Trebuchet MS' },
+  { family: 'Courier New', label: 'Courier New' },
+  { family: 'Impact', label: 'Impact' },
+];
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff,.woff2';
+
+const GENERIC_FAMILIES = new Set(['sans-serif', 'serif', 'monospace', 'cursive', 'fantasy']);
+
+// Named families are quoted and fall back to sans-serif while loading or when missing
+export const getFontStack = (family: string) =>
+  GENERIC_FAMILIES.has(family) ? family : `"${family.replace(/"/g, '')}", sans-serif`;
+
+export const getWatermarkFont = (style: WatermarkStyle, fontSize: number) =>
+  `${style.italic ? 'italic ' : ''}${style.bold ? 'bold ' : ''}${fontSize}px ${getFontStack(style.fontFamily)}`;
+
+// Family name from the file name, made unique among the fonts already uploaded
+export const createBrandFont = (file: File, existing: BrandFont[]): BrandFont => {
+  const base = file.name.replace(/\.[^.]+$/, '').replace(/[^\w\s-]/g, ' ').replace(/\s+/g, ' ').trim() || 'Fonte';
+  const taken = new Set([...existing.map(f => f.family), ...SYSTEM_FONTS.map(f => f.family)]);
+  let family = base;
+  for (let i = 2; taken.has(family); i++) family = `${base} ${i}`;
+  return { id: crypto.randomUUID(), family, name: file.name, data: file };
+};
+
+// Faces already added per font set (document.fonts or a worker's fonts), by font id
+const registered = new WeakMap<FontFaceSet, Map<string, FontFace>>();
+
+// Loads the font files and adds them to the set. Throws if a file is not a valid font.
+export const registerBrandFonts = async (fonts: BrandFont[], fontSet: FontFaceSet) => {
+  let added = registered.get(fontSet);
+  if (!added) {
+    added = new Map();
+    registered.set(fontSet, added);
+  }
+  const pending = fonts.filter(font => !added!.has(font.id));
+
+  await Promise.all(pending.map(async font => {
+    const face = new FontFace(font.family, await font.data.arrayBuffer());
+    // Added before loading so the set fires 'loadingdone' (the preview redraws on it)
+    fontSet.add(face);
+    try {
+      await face.load();
+    } catch (err) {
+      fontSet.delete(face);
+      throw err;
+    }
+    added!.set(font.id, face);
+  }));
+};
+
+// Removes a deleted font's face, so text using it falls back like it does in the export
+export const unregisterBrandFont = (id: string, fontSet: FontFaceSet) => {
+  const added = registered.get(fontSet);
+  const face = added?.get(id);
+  if (!face) return;
+  fontSet.delete(face);
+  added!.delete(id);
+};
+
+// Brand fonts an export of these adjustments needs (the tiled text uses the watermark font)
+export const getFontsUsed = (fonts: BrandFont[], adjustments: Adjustments) => {
+  const { enabled, content } = adjustments.tiledWatermark;
+  const usesFont = adjustments.watermark.trim() || (enabled && content === 'text');
+  return usesFont ? fonts.filter(f => f.family === adjustments.watermarkStyle.fontFamily) : [];
+};
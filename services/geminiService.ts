@@ -1,5 +1,10 @@
-import { GoogleGenAI } from "@google/genai";
+import { GenerateContentResponse, GoogleGenAI, Schema, Type } from "@google/genai";
 import { Adjustments, BoundingBox } from '../types';
+import { AiImage, AiProvider, AiTask } from './aiProvider';
+import { logAiUsage } from './aiInput';
+import { AiInvalidResponseError, ENHANCEMENT_RANGES, parseJsonResponse, validateEnhancement, validatePrivacyBoxes } from './aiValidation';
+
+// Gemini implementation of the AI provider. The model comes from the AI settings (per task).
 
 export class GeminiQuotaError extends Error {
   constructor() {
@@ -8,6 +13,10 @@ export class GeminiQuotaError extends Error {
   }
 }
 
+// Also matches errors that crossed a boundary where the class identity was lost
+export const isQuotaError = (error: unknown) =>
+  error instanceof GeminiQuotaError || (error instanceof Error && error.name === 'GeminiQuotaError');
+
 const getAiClient = () => {
   if (!process.env.API_KEY) {
     console.warn("No API Key found for Gemini");
@@ -39,17 +48,48 @@ async function retryWithBackoff<T>(fn: () => Promise<T>, retries = 2, delay = 20
   }
 }
 
-export const analyzeImageForEnhancement = async (base64Image: string): Promise<Partial<Adjustments>> => {
+// Structured output: the model is asked for JSON matching these schemas, and the
+// answer is still validated (and clamped) before use
+const rangeSchema = ([minimum, maximum]: [number, number]): Schema => ({ type: Type.INTEGER, minimum, maximum });
+
+const ENHANCEMENT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    brightness: rangeSchema(ENHANCEMENT_RANGES.brightness),
+    contrast: rangeSchema(ENHANCEMENT_RANGES.contrast),
+    saturation: rangeSchema(ENHANCEMENT_RANGES.saturation),
+    warmth: rangeSchema(ENHANCEMENT_RANGES.warmth),
+  },
+  required: ['brightness', 'contrast', 'saturation', 'warmth'],
+};
+
+// [ymin, xmin, ymax, xmax] scaled 0-1000
+const BOX_LIST_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: { type: Type.ARRAY, items: { type: Type.INTEGER, minimum: 0, maximum: 1000 }, minItems: '4', maxItems: '4' },
+};
+
+const PRIVACY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: { faces: BOX_LIST_SCHEMA, plates: BOX_LIST_SCHEMA },
+  required: ['faces', 'plates'],
+};
+
+// Token counts reported by Gemini for the call
+const logUsage = (task: AiTask, image: AiImage, response: GenerateContentResponse) => {
+  const usage = response.usageMetadata;
+  logAiUsage(task, image, { inputTokens: usage?.promptTokenCount, outputTokens: usage?.candidatesTokenCount });
+};
+
+const analyzeImageForEnhancement = async (image: AiImage, modelId: string): Promise<Partial<Adjustments>> => {
   const ai = getAiClient();
   if (!ai) return {};
 
   return retryWithBackoff(async () => {
     try {
-      const modelId = 'gemini-2.5-flash-image';
       const prompt = `
         Analyze this image and suggest photo editing adjustments to improve its quality professionally.
-        Return ONLY a valid JSON object. Do not use markdown formatting or backticks.
-        The JSON object must contain these integer properties (scale where 100 is neutral/original):
+        Return a JSON object with these integer properties (scale where 100 is neutral/original):
         - brightness (range 50-150)
         - contrast (range 50-150)
         - saturation (range 50-150)
@@ -60,28 +100,15 @@ export const analyzeImageForEnhancement = async (base64Image: string): Promise<P
         model: modelId,
         contents: {
           parts: [
-            { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+            { inlineData: { mimeType: image.mimeType, data: image.data } },
             { text: prompt }
           ]
-        }
+        },
+        config: { responseMimeType: 'application/json', responseSchema: ENHANCEMENT_SCHEMA }
       });
+      logUsage('enhance', image, response);
 
-      let text = response.text || "{}";
-      text = text.replace(/```json/g, '').replace(/```/g, '').trim();
-
-      let data;
-      try {
-          data = JSON.parse(text);
-      } catch (e) {
-          return {};
-      }
-      
-      return {
-        brightness: typeof data.brightness === 'number' ? data.brightness : 100,
-        contrast: typeof data.contrast === 'number' ? data.contrast : 100,
-        saturation: typeof data.saturation === 'number' ? data.saturation : 100,
-        warmth: typeof data.warmth === 'number' ? data.warmth : 0,
-      };
+      return validateEnhancement(parseJsonResponse(response.text));
 
     } catch (error) {
       console.error("Gemini AI Error:", error);
@@ -90,13 +117,11 @@ export const analyzeImageForEnhancement = async (base64Image: string): Promise<P
   });
 };
 
-export const removeBackgroundWithAI = async (base64Image: string): Promise<string> => {
+const removeBackgroundWithAI = async (image: AiImage, modelId: string): Promise<string> => {
   const ai = getAiClient();
   if (!ai) throw new Error("API Key missing");
 
   return retryWithBackoff(async () => {
-    const modelId = 'gemini-2.5-flash-image';
-    
     // Prompt altamente específico para gerar um PNG transparente (Alpha mask behavior simulation)
     const prompt = `
       Extract the main subject from this image and return it as a standalone PNG image with a transparent background (alpha channel). 
@@ -108,11 +133,12 @@ export const removeBackgroundWithAI = async (base64Image: string): Promise<strin
       model: modelId,
       contents: {
         parts: [
-          { inlineData: { mimeType: 'image/png', data: base64Image } },
+          { inlineData: { mimeType: image.mimeType, data: image.data } },
           { text: prompt }
         ]
       }
     });
+    logUsage('removeBackground', image, response);
 
     // Check for image parts in the response
     const candidates = response.candidates;
@@ -132,14 +158,13 @@ export const removeBackgroundWithAI = async (base64Image: string): Promise<strin
   });
 };
 
-export const detectPrivacyObjects = async (base64Image: string): Promise<BoundingBox[] | null> => {
+const detectPrivacyObjects = async (image: AiImage, modelId: string): Promise<BoundingBox[] | null> => {
   const ai = getAiClient();
-  if (!ai) return [];
+  // Not "nothing found": an empty answer would be cached and the photo never redacted
+  if (!ai) throw new Error("Chave da API Gemini ausente.");
 
   try {
     return await retryWithBackoff(async () => {
-        const modelId = 'gemini-2.5-flash-image';
-        
         // PROMPT ULTRA-AGRESSIVO PARA PRIVACIDADE
         // Instruções para priorizar falsos positivos sobre falsos negativos
         const prompt = `
@@ -152,40 +177,29 @@ export const detectPrivacyObjects = async (base64Image: string): Promise<Boundin
         
         CRITICAL: Be extremely aggressive. If you are even 10% sure it might be a face or a plate, INCLUDE IT. It is better to blur too much than to miss a private detail.
 
-        Return a JSON object with a key "boxes" containing an array of bounding boxes.
+        Return a JSON object with the keys "faces" and "plates", each an array of bounding boxes.
         Each box must be an array of 4 integers [ymin, xmin, ymax, xmax] scaled from 0 to 1000.
-        Example: {"boxes": [[100, 200, 300, 400]]}
-        If ABSOLUTELY nothing is found, return {"boxes": []}.
-        Return ONLY valid JSON.
+        If ABSOLUTELY nothing is found, return {"faces": [], "plates": []}.
         `;
 
         const response = await ai.models.generateContent({
         model: modelId,
         contents: {
             parts: [
-            { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+            { inlineData: { mimeType: image.mimeType, data: image.data } },
             { text: prompt }
             ]
-        }
+        },
+        config: { responseMimeType: 'application/json', responseSchema: PRIVACY_SCHEMA }
         });
+        logUsage('detectPrivacy', image, response);
 
-        let text = response.text || "{}";
-        text = text.replace(/```json/g, '').replace(/```/g, '').trim();
-
-        const data = JSON.parse(text);
-        if (data.boxes && Array.isArray(data.boxes)) {
-        return data.boxes.map((box: number[]) => ({
-            ymin: box[0],
-            xmin: box[1],
-            ymax: box[2],
-            xmax: box[3]
-        }));
-        }
-        return [];
+        return validatePrivacyBoxes(parseJsonResponse(response.text));
     });
 
   } catch (error) {
-    if (error instanceof GeminiQuotaError || (error as any).name === 'GeminiQuotaError') {
+    // Quota and invalid answers are reported to the user; anything else is retried later
+    if (isQuotaError(error) || error instanceof AiInvalidResponseError) {
         throw error;
     }
     console.error("Gemini Privacy Detection Error:", error);
@@ -193,15 +207,10 @@ export const detectPrivacyObjects = async (base64Image: string): Promise<Boundin
   }
 };
 
-export const blobToBase64 = (blob: Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-        const base64String = reader.result as string;
-        const base64Data = base64String.split(',')[1];
-        resolve(base64Data);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-};
\ No newline at end of file
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+  promptVersions: { enhance: 2, removeBackground: 1, detectPrivacy: 2 }, // 2: structured JSON output
+  enhance: analyzeImageForEnhancement,
+  removeBackground: removeBackgroundWithAI,
+  detectPrivacy: detectPrivacyObjects,
+};
@@ -0,0 +1,190 @@
+import { Adjustments, BoundingBox, CropRect } from '../types';
+
+export interface Geometry {
+  matrix: DOMMatrix;   // Maps source pixels to output pixels
+  width: number;       // Output size in pixels
+  height: number;
+  frameWidth: number;  // Size of the rotated/straightened frame the crop rect refers to
+  frameHeight: number;
+}
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const CROP_RATIOS: { label: string; value: number | null }[] = [
+  { label: 'Livre', value: null },
+  { label: '4:3', value: 4 / 3 },
+  { label: '3:2', value: 3 / 2 },
+  { label: '16:9', value: 16 / 9 },
+  { label: '1:1', value: 1 },
+];
+
+const MIN_CROP = 0.05;
+
+// Pixel ratio flipped to match the frame orientation
+const orientRatio = (ratio: number, frameWidth: number, frameHeight: number) =>
+  frameHeight > frameWidth ? 1 / ratio : ratio;
+
+export const hasGeometry = (adj: Adjustments) =>
+  !!adj.crop || adj.rotation % 360 !== 0 || adj.flipH || adj.flipV || adj.straighten !== 0;
+
+// Frame size after the 90° rotation step
+export const getRotatedSize = (width: number, height: number, rotation: number) => {
+  return rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+};
+
+// Scale needed so a rotated image still covers its own frame (no empty corners)
+export const getStraightenScale = (width: number, height: number, degrees: number) => {
+  const rad = Math.abs(degrees) * Math.PI / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return Math.max((width * cos + height * sin) / width, (width * sin + height * cos) / height);
+};
+
+// Builds the source -> output transform for rotation, flip, straighten and crop.
+// Pass ignoreCrop to get the full frame (used while editing the crop rect).
+export const computeGeometry = (
+  srcWidth: number,
+  srcHeight: number,
+  adj: Adjustments,
+  ignoreCrop = false
+): Geometry => {
+  const rotation = ((adj.rotation % 360) + 360) % 360;
+  const frame = getRotatedSize(srcWidth, srcHeight, rotation);
+  const scale = getStraightenScale(frame.width, frame.height, adj.straighten);
+  const crop = (!ignoreCrop && adj.crop) || FULL_CROP;
+
+  const cropX = crop.x * frame.width;
+  const cropY = crop.y * frame.height;
+  const width = Math.max(1, Math.round(crop.width * frame.width));
+  const height = Math.max(1, Math.round(crop.height * frame.height));
+
+  // DOMMatrix methods post-multiply: the last call is applied to the point first
+  const matrix = new DOMMatrix()
+    .translate(-cropX, -cropY)
+    .translate(frame.width / 2, frame.height / 2)
+    .rotate(adj.straighten)
+    .scale(scale)
+    .scale(adj.flipH ? -1 : 1, adj.flipV ? -1 : 1)
+    .rotate(rotation)
+    .translate(-srcWidth / 2, -srcHeight / 2);
+
+  return { matrix, width, height, frameWidth: frame.width, frameHeight: frame.height };
+};
+
+// Maps a box detected on the original image (0-1000 scale) into output space.
+// Returns null when the box ends up outside the cropped area.
+export const mapBoxToOutput = (
+  box: BoundingBox,
+  srcWidth: number,
+  srcHeight: number,
+  geometry: Geometry
+): BoundingBox | null => {
+  const corners = [
+    [box.xmin, box.ymin],
+    [box.xmax, box.ymin],
+    [box.xmin, box.ymax],
+    [box.xmax, box.ymax],
+  ].map(([x, y]) => geometry.matrix.transformPoint(new DOMPoint((x / 1000) * srcWidth, (y / 1000) * srcHeight)));
+
+  const xs = corners.map(p => p.x / geometry.width * 1000);
+  const ys = corners.map(p => p.y / geometry.height * 1000);
+  const mapped: BoundingBox = {
+    xmin: Math.max(0, Math.min(...xs)),
+    ymin: Math.max(0, Math.min(...ys)),
+    xmax: Math.min(1000, Math.max(...xs)),
+    ymax: Math.min(1000, Math.max(...ys)),
+  };
+
+  if (mapped.xmax <= mapped.xmin || mapped.ymax <= mapped.ymin) return null;
+  return mapped;
+};
+
+// Largest centered crop with the given pixel aspect ratio inside the frame.
+// The ratio follows the frame orientation (4:3 becomes 3:4 on portrait photos).
+export const getCenteredCrop = (frameWidth: number, frameHeight: number, ratio: number | null): CropRect | null => {
+  if (!ratio) return null;
+  const oriented = orientRatio(ratio, frameWidth, frameHeight);
+  const frameRatio = frameWidth / frameHeight;
+
+  if (oriented > frameRatio) {
+    const height = frameRatio / oriented;
+    return { x: 0, y: (1 - height) / 2, width: 1, height };
+  }
+  const width = oriented / frameRatio;
+  return { x: (1 - width) / 2, y: 0, width, height: 1 };
+};
+
+// Keeps a crop rect inside the frame and above the minimum size
+export const clampCrop = (crop: CropRect): CropRect => {
+  const width = Math.max(MIN_CROP, Math.min(1, crop.width));
+  const height = Math.max(MIN_CROP, Math.min(1, crop.height));
+  return {
+    x: Math.max(0, Math.min(1 - width, crop.x)),
+    y: Math.max(0, Math.min(1 - height, crop.y)),
+    width,
+    height,
+  };
+};
+
+export type CropHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+// Applies a pointer delta (normalized to the frame) to the crop rect being edited.
+// Corner drags keep the opposite corner fixed and respect the selected aspect ratio.
+export const resizeCrop = (
+  start: CropRect,
+  handle: CropHandle,
+  dx: number,
+  dy: number,
+  ratio: number | null,
+  frameWidth: number,
+  frameHeight: number
+): CropRect => {
+  if (handle === 'move') {
+    return clampCrop({ ...start, x: start.x + dx, y: start.y + dy });
+  }
+
+  const west = handle === 'nw' || handle === 'sw';
+  const north = handle === 'nw' || handle === 'ne';
+
+  // The fixed corner
+  const anchorX = west ? start.x + start.width : start.x;
+  const anchorY = north ? start.y + start.height : start.y;
+
+  const pointerX = Math.max(0, Math.min(1, (west ? start.x : start.x + start.width) + dx));
+  const pointerY = Math.max(0, Math.min(1, (north ? start.y : start.y + start.height) + dy));
+
+  let width = Math.max(MIN_CROP, Math.abs(anchorX - pointerX));
+  let height = Math.max(MIN_CROP, Math.abs(anchorY - pointerY));
+
+  if (ratio) {
+    // Normalized height that gives the requested pixel ratio for this width
+    const factor = frameWidth / (frameHeight * orientRatio(ratio, frameWidth, frameHeight));
+    height = width * factor;
+
+    const maxWidth = west ? anchorX : 1 - anchorX;
+    const maxHeight = north ? anchorY : 1 - anchorY;
+    if (height > maxHeight) {
+      height = maxHeight;
+      width = height / factor;
+    }
+    if (width > maxWidth) {
+      width = maxWidth;
+      height = width * factor;
+    }
+  }
+
+  return clampCrop({
+    x: west ? anchorX - width : anchorX,
+    y: north ? anchorY - height : anchorY,
+    width,
+    height,
+  });
+};
+
+// Mirrors a crop rect so it keeps framing the same content after a flip
+export const flipCrop = (crop: CropRect | null, horizontal: boolean): CropRect | null => {
+  if (!crop) return null;
+  return horizontal
+    ? { ...crop, x: 1 - crop.x - crop.width }
+    : { ...crop, y: 1 - crop.y - crop.height };
+};
@@ -0,0 +1,74 @@
+import { Adjustments, HistoryAction, HistoryEntry, HistoryState } from '../types';
+import { ADJUSTMENT_LABELS, HISTORY_LIMIT, HISTORY_MERGE_WINDOW_MS } from '../constants';
+
+export const EMPTY_HISTORY: HistoryState = { history: [], historyIndex: -1 };
+
+export const canUndo = (state: HistoryState) => state.historyIndex >= 0;
+export const canRedo = (state: HistoryState) => state.historyIndex < state.history.length - 1;
+
+// Returns the keys whose values differ between two adjustment sets
+export const diffAdjustments = (before: Adjustments, after: Adjustments): (keyof Adjustments)[] => {
+  return (Object.keys(after) as (keyof Adjustments)[]).filter(key => before[key] !== after[key]);
+};
+
+// Builds a label and merge key from the changed fields when the caller did not provide one.
+// Editing the same fields repeatedly (slider drag, overlay move) yields the same merge key.
+export const describeChange = (before: Adjustments, after: Adjustments): HistoryAction => {
+  const keys = diffAdjustments(before, after);
+  if (keys.length === 0) return { label: 'Edição' };
+
+  const labels = Array.from(new Set(keys.map(k => ADJUSTMENT_LABELS[k] || k)));
+  return {
+    label: labels.length > 2 ? 'Vários ajustes' : labels.join(', '),
+    mergeKey: keys.sort().join(','),
+  };
+};
+
+const sameTargets = (a: Record<string, Adjustments>, b: Record<string, Adjustments>) => {
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length && aKeys.every(k => k in b);
+};
+
+// Adds an entry after the current position, dropping any redo branch.
+// Merges into the previous entry when it is a continuation of the same gesture.
+export const recordHistory = (state: HistoryState, entry: HistoryEntry): HistoryState => {
+  const kept = state.history.slice(0, state.historyIndex + 1);
+  const last = kept[kept.length - 1];
+
+  if (
+    last &&
+    entry.mergeKey &&
+    last.mergeKey === entry.mergeKey &&
+    entry.timestamp - last.timestamp < HISTORY_MERGE_WINDOW_MS &&
+    sameTargets(last.before, entry.before)
+  ) {
+    const merged: HistoryEntry = { ...last, after: entry.after, timestamp: entry.timestamp };
+    return { history: [...kept.slice(0, -1), merged], historyIndex: kept.length - 1 };
+  }
+
+  const history = [...kept, entry].slice(-HISTORY_LIMIT);
+  return { history, historyIndex: history.length - 1 };
+};
+
+// Moves to targetIndex and returns the adjustments that must be written back to each image
+export const travelHistory = (
+  state: HistoryState,
+  targetIndex: number
+): { state: HistoryState; patch: Record<string, Adjustments> } => {
+  const target = Math.max(-1, Math.min(state.history.length - 1, targetIndex));
+  const patch: Record<string, Adjustments> = {};
+
+  if (target < state.historyIndex) {
+    // Walk backwards so the oldest "before" wins
+    for (let i = state.historyIndex; i > target; i--) {
+      Object.assign(patch, state.history[i].before);
+    }
+  } else {
+    for (let i = state.historyIndex + 1; i <= target; i++) {
+      Object.assign(patch, state.history[i].after);
+    }
+  }
+
+  return { state: { ...state, historyIndex: target }, patch };
+};
@@ -0,0 +1,156 @@
+import { Adjustments, ImageLayer, LayerAnchor, LayerBlendMode, LegacyLayerPosition, LegacyOverlayFields, OverlayLayer, TextLayer } from '../types';
+import { DEFAULT_ADJUSTMENTS } from '../constants';
+
+export const LAYER_BLEND_MODES: { value: LayerBlendMode; label: string }[] = [
+  { value: 'source-over', label: 'Normal' },
+  { value: 'multiply', label: 'Multiplicar' },
+  { value: 'screen', label: 'Clarear (Screen)' },
+  { value: 'overlay', label: 'Sobrepor' },
+  { value: 'soft-light', label: 'Luz Suave' },
+  { value: 'difference', label: 'Diferença' },
+];
+
+// Row by row, as shown in the 3x3 picker
+export const LAYER_ANCHORS: { value: LayerAnchor; label: string }[] = [
+  { value: 'top-left', label: 'Superior esquerdo' },
+  { value: 'top', label: 'Superior' },
+  { value: 'top-right', label: 'Superior direito' },
+  { value: 'left', label: 'Esquerda' },
+  { value: 'center', label: 'Centro' },
+  { value: 'right', label: 'Direita' },
+  { value: 'bottom-left', label: 'Inferior esquerdo' },
+  { value: 'bottom', label: 'Inferior' },
+  { value: 'bottom-right', label: 'Inferior direito' },
+];
+
+// Center of a layer box (unrotated size, pixels) placed by its anchor, margin and offset
+export const getAnchoredCenter = (
+  layer: OverlayLayer,
+  boxWidth: number,
+  boxHeight: number,
+  canvasWidth: number,
+  canvasHeight: number
+) => {
+  const shortEdge = Math.min(canvasWidth, canvasHeight);
+  const margin = shortEdge * layer.margin;
+  const { anchor } = layer;
+
+  const x = anchor.endsWith('left') ? margin + boxWidth / 2
+    : anchor.endsWith('right') ? canvasWidth - margin - boxWidth / 2
+    : canvasWidth / 2;
+  const y = anchor.startsWith('top') ? margin + boxHeight / 2
+    : anchor.startsWith('bottom') ? canvasHeight - margin - boxHeight / 2
+    : canvasHeight / 2;
+
+  return { x: x + layer.offsetX * shortEdge, y: y + layer.offsetY * shortEdge };
+};
+
+// Listing photos are mostly 4:3 landscape, where the short edge is 3/4 of the width
+const LEGACY_SHORT_EDGE_RATIO = 0.75;
+
+// Old center positions snap to the nearest of the 9 anchors; the exact spot can't be
+// recovered without the photo size, so the offset starts at zero
+const legacyPlacement = (x = 0.5, y = 0.5, widthScale: number) => {
+  const column = x < 1 / 3 ? 0 : x > 2 / 3 ? 2 : 1;
+  const row = y < 1 / 3 ? 0 : y > 2 / 3 ? 2 : 1;
+  return {
+    anchor: LAYER_ANCHORS[row * 3 + column].value,
+    margin: row === 1 && column === 1 ? 0 : 0.04,
+    offsetX: 0,
+    offsetY: 0,
+    scale: widthScale / LEGACY_SHORT_EDGE_RATIO,
+  };
+};
+
+const migrateLayer = (layer: OverlayLayer & LegacyLayerPosition): OverlayLayer => {
+  if (layer.anchor) return layer;
+  const { x, y, ...rest } = layer;
+  return { ...rest, ...legacyPlacement(x, y, layer.scale) };
+};
+
+export const createImageLayer = (src: string, fields: Partial<ImageLayer> = {}): ImageLayer => ({
+  id: crypto.randomUUID(),
+  kind: 'image',
+  name: 'Logo',
+  src,
+  anchor: 'center',
+  margin: 0.04,
+  offsetX: 0,
+  offsetY: 0,
+  scale: 0.4,
+  rotation: 0,
+  opacity: 1,
+  blendMode: 'source-over',
+  ...fields,
+});
+
+export const createTextLayer = (text: string, fields: Partial<TextLayer> = {}): TextLayer => ({
+  id: crypto.randomUUID(),
+  kind: 'text',
+  name: 'Texto',
+  text,
+  color: '#ffffff',
+  anchor: 'bottom',
+  margin: 0.05,
+  offsetX: 0,
+  offsetY: 0,
+  scale: 0.06,
+  rotation: 0,
+  opacity: 1,
+  blendMode: 'source-over',
+  ...fields,
+});
+
+// Nested settings keep the default object when nothing was saved (cheap equality checks)
+const withDefaults = <T extends object>(defaults: T, saved?: Partial<T>): T =>
+  saved ? { ...defaults, ...saved } : defaults;
+
+// Fills in fields added since the adjustments were saved (including new watermark
+// fields), moves the old single overlay (overlayImage/overlayX/...) into an image layer
+// and turns center-positioned layers into anchored ones
+export const migrateAdjustments = (saved: Partial<Adjustments> & LegacyOverlayFields): Adjustments => {
+  const { overlayImage, overlayX, overlayY, overlayScale, overlayOpacity, ...rest } = saved;
+  let layers = rest.layers ?? DEFAULT_ADJUSTMENTS.layers;
+
+  if (overlayImage && layers.length === 0) {
+    layers = [createImageLayer(overlayImage, {
+      ...legacyPlacement(overlayX, overlayY, overlayScale ?? 0.2),
+      opacity: overlayOpacity ?? 1,
+    })];
+  } else if (layers.some(layer => !layer.anchor)) {
+    layers = layers.map(migrateLayer);
+  }
+
+  return {
+    ...DEFAULT_ADJUSTMENTS,
+    ...rest,
+    layers,
+    watermarkStyle: withDefaults(DEFAULT_ADJUSTMENTS.watermarkStyle, rest.watermarkStyle),
+    tiledWatermark: withDefaults(DEFAULT_ADJUSTMENTS.tiledWatermark, rest.tiledWatermark),
+    redaction: withDefaults(DEFAULT_ADJUSTMENTS.redaction, rest.redaction),
+  };
+};
+
+export const updateLayer = (layers: OverlayLayer[], id: string, patch: Partial<OverlayLayer>): OverlayLayer[] =>
+  layers.map(layer => layer.id === id ? { ...layer, ...patch } as OverlayLayer : layer);
+
+// direction 1 = towards the top of the stack
+export const moveLayer = (layers: OverlayLayer[], id: string, direction: 1 | -1): OverlayLayer[] => {
+  const index = layers.findIndex(l => l.id === id);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= layers.length) return layers;
+  const next = [...layers];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+// Distinct image sources (layers, the tiled logo and the redaction sticker) to decode
+// before rendering. The sticker logo is always loaded: manual regions may pick it.
+export const getImageSources = (adjustments: Adjustments): string[] => {
+  const sources = adjustments.layers.filter((l): l is ImageLayer => l.kind === 'image').map(l => l.src);
+  const { enabled, content, logo } = adjustments.tiledWatermark;
+  if (enabled && content === 'logo' && logo) sources.push(logo);
+  const { sticker, logo: stickerLogo } = adjustments.redaction;
+  if (sticker === 'logo' && stickerLogo) sources.push(stickerLogo);
+  return Array.from(new Set(sources));
+};
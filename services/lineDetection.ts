@@ -0,0 +1,140 @@
+import { loadImage } from './imageUtils';
+
+// Local tilt detection: Sobel edges + Hough-style voting on a downscaled copy.
+// Runs entirely in the browser, no AI call involved.
+
+const ANALYSIS_SIZE = 512;  // Long edge of the analysis copy
+const MAX_TILT = 20;        // Degrees searched on each side of vertical/horizontal
+const ANGLE_STEP = 0.1;
+const MIN_EDGE_POINTS = 150;
+const MAX_EDGE_POINTS = 20000;
+
+interface EdgePoint {
+  x: number;
+  y: number;
+  weight: number;
+}
+
+export interface TiltResult {
+  correction: number; // Degrees to feed into Adjustments.straighten
+  source: 'vertical' | 'horizontal';
+  confidence: number; // 0-1, share of edge weight that voted for the winning lines
+}
+
+const toGrayscale = (data: Uint8ClampedArray, width: number, height: number) => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  return gray;
+};
+
+// Sobel gradients, split by orientation. Vertical lines have a mostly horizontal gradient.
+const collectEdges = (gray: Float32Array, width: number, height: number) => {
+  const magnitudes = new Float32Array(width * height);
+  const gxs = new Float32Array(width * height);
+  const gys = new Float32Array(width * height);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx =
+        -gray[i - width - 1] - 2 * gray[i - 1] - gray[i + width - 1] +
+        gray[i - width + 1] + 2 * gray[i + 1] + gray[i + width + 1];
+      const gy =
+        -gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1] +
+        gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1];
+      gxs[i] = gx;
+      gys[i] = gy;
+      magnitudes[i] = Math.hypot(gx, gy);
+    }
+  }
+
+  // Keep only the strongest edges
+  const sorted = Array.from(magnitudes).sort((a, b) => b - a);
+  const threshold = Math.max(60, sorted[Math.min(sorted.length - 1, MAX_EDGE_POINTS)]);
+
+  const vertical: EdgePoint[] = [];
+  const horizontal: EdgePoint[] = [];
+  const tolerance = Math.tan(((MAX_TILT + 5) * Math.PI) / 180);
+
+  for (let i = 0; i < magnitudes.length; i++) {
+    const weight = magnitudes[i];
+    if (weight < threshold) continue;
+    const ax = Math.abs(gxs[i]);
+    const ay = Math.abs(gys[i]);
+    const point = { x: i % width, y: Math.floor(i / width), weight };
+    if (ay <= ax * tolerance) vertical.push(point);
+    else if (ax <= ay * tolerance) horizontal.push(point);
+  }
+
+  return { vertical, horizontal };
+};
+
+// Votes every candidate angle: edge points are projected on the line normal and
+// binned by distance. Collinear points pile up in one bin, so the sum of squared
+// bins peaks at the angle of the dominant lines.
+const voteAngle = (points: EdgePoint[], diagonal: number, isVertical: boolean) => {
+  const bins = Math.ceil(diagonal * 2) + 1;
+  const accumulator = new Float32Array(bins);
+  let bestAngle = 0;
+  let bestScore = -1;
+  let bestPeak = 0;
+
+  for (let angle = -MAX_TILT; angle <= MAX_TILT + 1e-9; angle += ANGLE_STEP) {
+    const rad = (angle * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    accumulator.fill(0);
+
+    for (const p of points) {
+      // Vertical family: normal (cos, sin). Horizontal family: normal (-sin, cos).
+      const rho = isVertical ? p.x * cos + p.y * sin : -p.x * sin + p.y * cos;
+      accumulator[Math.round(rho + diagonal)] += p.weight;
+    }
+
+    let score = 0;
+    let peak = 0;
+    for (let b = 0; b < bins; b++) {
+      score += accumulator[b] * accumulator[b];
+      if (accumulator[b] > peak) peak = accumulator[b];
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+      bestPeak = peak;
+    }
+  }
+
+  const total = points.reduce((sum, p) => sum + p.weight, 0);
+  return { angle: bestAngle, confidence: total > 0 ? Math.min(1, (bestPeak * 4) / total) : 0 };
+};
+
+// Finds how much the photo is tilted and returns the straighten value that fixes it.
+// Verticals (walls, door frames) are preferred since horizontals are bent by perspective.
+export const detectTilt = async (imageUrl: string): Promise<TiltResult | null> => {
+  const img = await loadImage(imageUrl);
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(img.width, img.height));
+  const width = Math.max(3, Math.round(img.width * scale));
+  const height = Math.max(3, Math.round(img.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const gray = toGrayscale(ctx.getImageData(0, 0, width, height).data, width, height);
+  const { vertical, horizontal } = collectEdges(gray, width, height);
+  const diagonal = Math.hypot(width, height);
+
+  const family = vertical.length >= MIN_EDGE_POINTS ? 'vertical' : horizontal.length >= MIN_EDGE_POINTS ? 'horizontal' : null;
+  if (!family) return null;
+
+  const { angle, confidence } = voteAngle(family === 'vertical' ? vertical : horizontal, diagonal, family === 'vertical');
+
+  // A positive angle means the scene leans clockwise, so rotate it back
+  const correction = Math.round(-angle * 10) / 10;
+  return { correction: correction === 0 ? 0 : correction, source: family, confidence };
+};
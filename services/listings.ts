@@ -0,0 +1,80 @@
+import { ImageFile, Listing, ListingStatus, PropertyType } from '../types';
+
+export const PROPERTY_TYPES: { value: PropertyType; label: string }[] = [
+  { value: 'apartamento', label: 'Apartamento' },
+  { value: 'casa', label: 'Casa' },
+  { value: 'cobertura', label: 'Cobertura' },
+  { value: 'terreno', label: 'Terreno' },
+  { value: 'comercial', label: 'Comercial' },
+  { value: 'rural', label: 'Rural' },
+  { value: 'outro', label: 'Outro' },
+];
+
+// label is what ribbons print for {status}
+export const LISTING_STATUSES: { value: ListingStatus; label: string }[] = [
+  { value: 'none', label: '' },
+  { value: 'novo', label: 'NOVO' },
+  { value: 'oportunidade', label: 'OPORTUNIDADE' },
+  { value: 'reservado', label: 'RESERVADO' },
+  { value: 'vendido', label: 'VENDIDO' },
+  { value: 'alugado', label: 'ALUGADO' },
+];
+
+const LISTING_DEFAULTS: Omit<Listing, 'id'> = {
+  code: '',
+  address: '',
+  type: 'apartamento',
+  coverImageId: null,
+  imageIds: [],
+  defaultConfigId: null,
+  status: 'none',
+  price: null,
+  bedrooms: null,
+  area: null,
+  flyerTemplateId: null,
+};
+
+export const createListing = (fields: Partial<Listing> = {}): Listing => ({
+  id: crypto.randomUUID(),
+  ...LISTING_DEFAULTS,
+  ...fields,
+});
+
+export const getListingLabel = (listing: Listing) => listing.code || listing.address || 'Imóvel sem código';
+
+// Images of the listing in its own order (ids that no longer exist are skipped)
+export const getListingImages = (listing: Listing | undefined, images: ImageFile[]): ImageFile[] => {
+  if (!listing) return [];
+  const byId = new Map(images.map(img => [img.id, img]));
+  return listing.imageIds.map(id => byId.get(id)).filter((img): img is ImageFile => !!img);
+};
+
+export const getCoverImage = (listing: Listing, images: ImageFile[]) => {
+  const own = getListingImages(listing, images);
+  return own.find(img => img.id === listing.coverImageId) || own[0] || null;
+};
+
+// Keeps every image in exactly one listing. Projects saved before listings existed
+// get a single listing holding all of their photos; older listings get the new fields.
+export const normalizeListings = (listings: Listing[] | undefined, imageIds: string[]): Listing[] => {
+  const valid = new Set(imageIds);
+  const seen = new Set<string>();
+  const result = (listings && listings.length > 0 ? listings : [createListing()]).map(listing => {
+    const ids = listing.imageIds.filter(id => valid.has(id) && !seen.has(id));
+    ids.forEach(id => seen.add(id));
+    return { ...LISTING_DEFAULTS, ...listing, imageIds: ids, coverImageId: listing.coverImageId && ids.includes(listing.coverImageId) ? listing.coverImageId : null };
+  });
+
+  const orphans = imageIds.filter(id => !seen.has(id));
+  if (orphans.length > 0) result[0] = { ...result[0], imageIds: [...result[0].imageIds, ...orphans] };
+  return result;
+};
+
+export const moveImagesToListing = (listings: Listing[], ids: string[], targetId: string): Listing[] => {
+  const moving = new Set(ids);
+  return listings.map(listing => {
+    const kept = listing.imageIds.filter(id => !moving.has(id));
+    if (listing.id === targetId) return { ...listing, imageIds: [...kept, ...ids.filter(id => !kept.includes(id))] };
+    return { ...listing, imageIds: kept, coverImageId: listing.coverImageId && moving.has(listing.coverImageId) ? null : listing.coverImageId };
+  });
+};
@@ -0,0 +1,104 @@
+import { BoundingBox } from '../types';
+import { AiProvider } from './aiProvider';
+import { logAiUsage } from './aiInput';
+import { canvasToBlob, createCanvas, getContext2D } from './canvas';
+import { blobToBase64 } from './imageUtils';
+
+// Offline stand-in for the AI provider, for development without a key. Answers depend
+// only on the image bytes, so the same photo always gets the same result.
+
+// Short pause so loading states can be seen
+const MOCK_LATENCY_MS = 400;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// FNV-1a over the base64 text; sampled on long inputs to stay fast on full-size photos
+const hashImage = (base64: string) => {
+  const step = Math.max(1, Math.floor(base64.length / 100000));
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < base64.length; i += step) {
+    hash ^= base64.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Deterministic sequence of numbers in [0, 1) seeded by the image
+const createRandom = (seed: number) => {
+  let state = seed || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 0x100000000;
+  };
+};
+
+const between = (random: () => number, min: number, max: number) => Math.round(min + random() * (max - min));
+
+const enhance: AiProvider['enhance'] = async (image) => {
+  await wait(MOCK_LATENCY_MS);
+  logAiUsage('enhance', image);
+  const random = createRandom(hashImage(image.data));
+  return {
+    brightness: between(random, 100, 115),
+    contrast: between(random, 100, 120),
+    saturation: between(random, 100, 125),
+    warmth: between(random, 0, 15),
+  };
+};
+
+// Keeps a feathered ellipse around the center, the usual place of a logo's subject
+const removeBackground: AiProvider['removeBackground'] = async (image) => {
+  await wait(MOCK_LATENCY_MS);
+  logAiUsage('removeBackground', image);
+  const blob = await (await fetch(`data:${image.mimeType};base64,${image.data}`)).blob();
+  const bitmap = await createImageBitmap(blob);
+  const canvas = createCanvas(bitmap.width, bitmap.height);
+  const ctx = getContext2D(canvas)!;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const radius = Math.max(canvas.width, canvas.height) / 2;
+  const mask = ctx.createRadialGradient(0, 0, radius * 0.7, 0, 0, radius);
+  mask.addColorStop(0, 'rgba(0,0,0,1)');
+  mask.addColorStop(1, 'rgba(0,0,0,0)');
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.setTransform(canvas.width / (radius * 2), 0, 0, canvas.height / (radius * 2), canvas.width / 2, canvas.height / 2);
+  ctx.fillStyle = mask;
+  ctx.fillRect(-radius, -radius, radius * 2, radius * 2);
+
+  return blobToBase64(await canvasToBlob(canvas, 'image/png'));
+};
+
+// Zero to two faces in the upper half and at most one plate in the lower half
+const detectPrivacy: AiProvider['detectPrivacy'] = async (image) => {
+  await wait(MOCK_LATENCY_MS);
+  logAiUsage('detectPrivacy', image);
+  const random = createRandom(hashImage(image.data));
+  const boxes: BoundingBox[] = [];
+
+  const faces = between(random, 0, 2);
+  for (let i = 0; i < faces; i++) {
+    const size = between(random, 60, 140);
+    const xmin = between(random, 50, 900 - size);
+    const ymin = between(random, 50, 450 - size);
+    boxes.push({ ymin, xmin, ymax: ymin + Math.round(size * 1.3), xmax: xmin + size, label: 'face' });
+  }
+
+  if (random() < 0.5) {
+    const xmin = between(random, 100, 750);
+    const ymin = between(random, 600, 880);
+    boxes.push({ ymin, xmin, ymax: ymin + 50, xmax: xmin + 150, label: 'plate' });
+  }
+
+  return boxes;
+};
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  promptVersions: { enhance: 1, removeBackground: 1, detectPrivacy: 1 },
+  enhance,
+  removeBackground,
+  detectPrivacy,
+};
@@ -0,0 +1,231 @@
+import { Adjustments, BoundingBox, Point } from '../types';
+import { AnyCanvas, SizedImageSource, createCanvas, getContext2D } from './canvas';
+
+// 3x3 homography stored row-major, h[8] normalized to 1
+export type Homography = number[];
+
+export interface PerspectiveTransform {
+  forward: Homography; // Source (0-1) -> output (0-1)
+  inverse: Homography; // Output (0-1) -> source (0-1)
+  crop: { x: number; y: number; width: number; height: number }; // Auto-crop rect in the warped plane
+}
+
+// Max inset of the source quad at slider value ±100
+const KEYSTONE_STRENGTH = 0.3;
+const MIN_OUTPUT = 0.1;
+
+export const DEFAULT_GUIDE: Point[] = [
+  { x: 0.25, y: 0.2 }, { x: 0.25, y: 0.8 }, // Line A
+  { x: 0.75, y: 0.2 }, { x: 0.75, y: 0.8 }, // Line B
+];
+
+export const hasPerspective = (adj: Adjustments) =>
+  !!adj.perspectiveGuide || adj.perspectiveV !== 0 || adj.perspectiveH !== 0;
+
+export const applyHomography = (h: Homography, p: Point): Point => {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w,
+  };
+};
+
+// Solves the 8 unknowns mapping src[i] -> dst[i] with gaussian elimination.
+// Returns null for degenerate quads.
+export const solveHomography = (src: Point[], dst: Point[]): Homography | null => {
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-10) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col] / rows[col][col];
+      for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+    }
+  }
+
+  return [...rows.map((row, i) => row[8] / row[i]), 1];
+};
+
+export const invertHomography = (h: Homography): Homography | null => {
+  const [a, b, c, d, e, f, g, k, m] = h;
+  const det = a * (e * m - f * k) - b * (d * m - f * g) + c * (d * k - e * g);
+  if (Math.abs(det) < 1e-12) return null;
+  const inv = [
+    (e * m - f * k), (c * k - b * m), (b * f - c * e),
+    (f * g - d * m), (a * m - c * g), (c * d - a * f),
+    (d * k - e * g), (b * g - a * k), (a * e - b * d),
+  ].map(v => v / det);
+  return inv.map(v => v / inv[8]);
+};
+
+const multiplyHomography = (a: Homography, b: Homography): Homography => {
+  const out: number[] = [];
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      out.push(a[r * 3] * b[c] + a[r * 3 + 1] * b[3 + c] + a[r * 3 + 2] * b[6 + c]);
+    }
+  }
+  return out.map(v => v / out[8]);
+};
+
+// Source quad (normalized) that the keystone sliders stretch onto the full frame.
+// Positive vertical values widen the top (fixes verticals converging upwards).
+const keystoneQuad = (vertical: number, horizontal: number): Point[] => {
+  const top = Math.max(0, vertical) / 100 * KEYSTONE_STRENGTH;
+  const bottom = Math.max(0, -vertical) / 100 * KEYSTONE_STRENGTH;
+  const left = Math.max(0, horizontal) / 100 * KEYSTONE_STRENGTH;
+  const right = Math.max(0, -horizontal) / 100 * KEYSTONE_STRENGTH;
+  return [
+    { x: top, y: left },
+    { x: 1 - top, y: right },
+    { x: 1 - bottom, y: 1 - right },
+    { x: bottom, y: 1 - left },
+  ];
+};
+
+// x of the line through a and b at height y
+const lineXAt = (a: Point, b: Point, y: number) => a.x + (y - a.y) * (b.x - a.x) / (b.y - a.y);
+
+// Homography that turns the two guide lines into parallel verticals
+const guideHomography = (guide: Point[]): Homography | null => {
+  const [a1, a2, b1, b2] = guide;
+  if (Math.abs(a2.y - a1.y) < 0.02 || Math.abs(b2.y - b1.y) < 0.02) return null;
+
+  const aTop = lineXAt(a1, a2, 0);
+  const aBottom = lineXAt(a1, a2, 1);
+  const bTop = lineXAt(b1, b2, 0);
+  const bBottom = lineXAt(b1, b2, 1);
+  const aX = (aTop + aBottom) / 2;
+  const bX = (bTop + bBottom) / 2;
+  if (Math.abs(bX - aX) < 0.05) return null;
+
+  return solveHomography(
+    [{ x: aTop, y: 0 }, { x: bTop, y: 0 }, { x: bBottom, y: 1 }, { x: aBottom, y: 1 }],
+    [{ x: aX, y: 0 }, { x: bX, y: 0 }, { x: bX, y: 1 }, { x: aX, y: 1 }]
+  );
+};
+
+// Builds the warp for the current adjustments, or null when there is nothing to do.
+// The output is auto-cropped to the largest axis-aligned rect inside the warped image.
+export const getPerspectiveTransform = (adj: Adjustments): PerspectiveTransform | null => {
+  if (!hasPerspective(adj)) return null;
+
+  const warp = adj.perspectiveGuide
+    ? guideHomography(adj.perspectiveGuide)
+    : solveHomography(keystoneQuad(adj.perspectiveV, adj.perspectiveH), [
+        { x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 },
+      ]);
+  if (!warp) return null;
+
+  const [tl, tr, br, bl] = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }].map(p => applyHomography(warp, p));
+  const left = Math.max(tl.x, bl.x);
+  const right = Math.min(tr.x, br.x);
+  const top = Math.max(tl.y, tr.y);
+  const bottom = Math.min(bl.y, br.y);
+  if (right - left < MIN_OUTPUT || bottom - top < MIN_OUTPUT) return null;
+
+  const crop = { x: left, y: top, width: right - left, height: bottom - top };
+
+  // Fold the auto-crop into the warp so it maps straight to the 0-1 output
+  const toOutput: Homography = [
+    1 / crop.width, 0, -crop.x / crop.width,
+    0, 1 / crop.height, -crop.y / crop.height,
+    0, 0, 1,
+  ];
+  const forward = multiplyHomography(toOutput, warp);
+  const inverse = invertHomography(forward);
+  if (!inverse) return null;
+
+  return { forward, inverse, crop };
+};
+
+// Output size in pixels for a source of the given size
+export const getWarpedSize = (width: number, height: number, transform: PerspectiveTransform) => ({
+  width: Math.max(1, Math.round(width * transform.crop.width)),
+  height: Math.max(1, Math.round(height * transform.crop.height)),
+});
+
+// Renders the projective warp with inverse mapping and bilinear sampling.
+// maxSize downsamples the source first (used by the live preview).
+export const warpPerspective = (
+  source: SizedImageSource,
+  transform: PerspectiveTransform,
+  maxSize?: number
+): AnyCanvas => {
+  const scale = maxSize ? Math.min(1, maxSize / Math.max(source.width, source.height)) : 1;
+  const srcW = Math.max(1, Math.round(source.width * scale));
+  const srcH = Math.max(1, Math.round(source.height * scale));
+
+  const srcCanvas = createCanvas(srcW, srcH);
+  const srcCtx = getContext2D(srcCanvas)!;
+  srcCtx.drawImage(source, 0, 0, srcW, srcH);
+  const src = srcCtx.getImageData(0, 0, srcW, srcH).data;
+
+  const { width: outW, height: outH } = getWarpedSize(srcW, srcH, transform);
+  const outCanvas = createCanvas(outW, outH);
+  const outCtx = getContext2D(outCanvas)!;
+  const outData = outCtx.createImageData(outW, outH);
+  const out = outData.data;
+
+  const h = transform.inverse;
+  for (let y = 0; y < outH; y++) {
+    const ny = (y + 0.5) / outH;
+    for (let x = 0; x < outW; x++) {
+      const nx = (x + 0.5) / outW;
+      const w = h[6] * nx + h[7] * ny + h[8];
+      const sx = ((h[0] * nx + h[1] * ny + h[2]) / w) * srcW - 0.5;
+      const sy = ((h[3] * nx + h[4] * ny + h[5]) / w) * srcH - 0.5;
+
+      const x0 = Math.max(0, Math.min(srcW - 1, Math.floor(sx)));
+      const y0 = Math.max(0, Math.min(srcH - 1, Math.floor(sy)));
+      const x1 = Math.min(srcW - 1, x0 + 1);
+      const y1 = Math.min(srcH - 1, y0 + 1);
+      const fx = Math.max(0, Math.min(1, sx - x0));
+      const fy = Math.max(0, Math.min(1, sy - y0));
+
+      const i00 = (y0 * srcW + x0) * 4;
+      const i10 = (y0 * srcW + x1) * 4;
+      const i01 = (y1 * srcW + x0) * 4;
+      const i11 = (y1 * srcW + x1) * 4;
+      const o = (y * outW + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = src[i00 + c] + (src[i10 + c] - src[i00 + c]) * fx;
+        const bottom = src[i01 + c] + (src[i11 + c] - src[i01 + c]) * fx;
+        out[o + c] = top + (bottom - top) * fy;
+      }
+    }
+  }
+
+  outCtx.putImageData(outData, 0, 0);
+  return outCanvas;
+};
+
+// Maps a box (0-1000, original image) into the warped output (bounding box of the warped corners)
+export const mapBoxThroughPerspective = (box: BoundingBox, transform: PerspectiveTransform): BoundingBox | null => {
+  const corners = [
+    { x: box.xmin, y: box.ymin }, { x: box.xmax, y: box.ymin },
+    { x: box.xmin, y: box.ymax }, { x: box.xmax, y: box.ymax },
+  ].map(p => applyHomography(transform.forward, { x: p.x / 1000, y: p.y / 1000 }));
+
+  const mapped: BoundingBox = {
+    xmin: Math.max(0, Math.min(...corners.map(p => p.x)) * 1000),
+    ymin: Math.max(0, Math.min(...corners.map(p => p.y)) * 1000),
+    xmax: Math.min(1000, Math.max(...corners.map(p => p.x)) * 1000),
+    ymax: Math.min(1000, Math.max(...corners.map(p => p.y)) * 1000),
+  };
+  if (mapped.xmax <= mapped.xmin || mapped.ymax <= mapped.ymin) return null;
+  return mapped;
+};
@@ -0,0 +1,80 @@
+import { BoundingBox, ImageFile, ManualRegion, RedactionRegion, RedactionSettings, RedactionShape, RedactionStyle } from '../types';
+
+export const REDACTION_STYLES: { value: RedactionStyle; label: string }[] = [
+  { value: 'pixelate', label: 'Pixelado' },
+  { value: 'blur', label: 'Desfoque' },
+  { value: 'fill', label: 'Cor sólida' },
+  { value: 'sticker', label: 'Adesivo' },
+];
+
+export const REDACTION_SHAPES: { value: RedactionShape; label: string }[] = [
+  { value: 'auto', label: 'Automático' },
+  { value: 'rectangle', label: 'Retângulo' },
+  { value: 'ellipse', label: 'Elipse' },
+];
+
+// Smallest box (0-1000 units) kept when drawing, so a click doesn't create a region
+export const MIN_REGION_SIZE = 10;
+
+// Re-running detection moves boxes a little; this much overlap still counts as the same object
+const SAME_OBJECT_IOU = 0.5;
+
+export const createManualRegion = (box: BoundingBox, mode: ManualRegion['mode'] = 'blur'): ManualRegion => ({
+  id: crypto.randomUUID(),
+  box,
+  mode,
+});
+
+const getArea = (b: BoundingBox) => Math.max(0, b.xmax - b.xmin) * Math.max(0, b.ymax - b.ymin);
+
+export const getIoU = (a: BoundingBox, b: BoundingBox) => {
+  const intersection = getArea({
+    xmin: Math.max(a.xmin, b.xmin),
+    ymin: Math.max(a.ymin, b.ymin),
+    xmax: Math.min(a.xmax, b.xmax),
+    ymax: Math.min(a.ymax, b.ymax),
+  });
+  const union = getArea(a) + getArea(b) - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+export const isIgnored = (box: BoundingBox, manual: ManualRegion[] = []) =>
+  manual.some(r => r.mode === 'ignore' && getIoU(r.box, box) >= SAME_OBJECT_IOU);
+
+const resolveShape = (shape: RedactionSettings['shape'], box: BoundingBox): RedactionRegion['shape'] =>
+  shape === 'auto' ? (box.label === 'face' ? 'ellipse' : 'rectangle') : shape;
+
+// What the render core redacts: detections (when the privacy toggle is on) minus the
+// ignored ones, plus every manual box with its own style/shape when it has one
+export const getRedactionRegions = (image: ImageFile): RedactionRegion[] => {
+  const { style, shape } = image.adjustments.redaction;
+  const manual = image.manualRegions || [];
+  const detected = image.adjustments.privacyBlur
+    ? (image.privacyRegions || []).filter(box => !isIgnored(box, manual))
+    : [];
+  return [
+    ...detected.map(box => ({ box, style, shape: resolveShape(shape, box) })),
+    ...manual.filter(r => r.mode === 'blur').map(r => ({
+      box: r.box,
+      style: r.style || style,
+      shape: resolveShape(r.shape || shape, r.box),
+    })),
+  ];
+};
+
+export const ignoreDetected = (manual: ManualRegion[], box: BoundingBox): ManualRegion[] =>
+  isIgnored(box, manual) ? manual : [...manual, createManualRegion(box, 'ignore')];
+
+export const restoreDetected = (manual: ManualRegion[], box: BoundingBox): ManualRegion[] =>
+  manual.filter(r => !(r.mode === 'ignore' && getIoU(r.box, box) >= SAME_OBJECT_IOU));
+
+// Keeps the box inside the image, with xmin < xmax and ymin < ymax
+export const normalizeBox = (box: BoundingBox): BoundingBox => {
+  const clamp = (v: number) => Math.max(0, Math.min(1000, v));
+  return {
+    xmin: clamp(Math.min(box.xmin, box.xmax)),
+    ymin: clamp(Math.min(box.ymin, box.ymax)),
+    xmax: clamp(Math.max(box.xmin, box.xmax)),
+    ymax: clamp(Math.max(box.ymin, box.ymax)),
+  };
+};
@@ -0,0 +1,193 @@
+import { BrandFont, ImageFile, ProjectRecord, StoredImage } from '../types';
+
+const DB_NAME = 'lumina_projects';
+const DB_VERSION = 2;
+
+const PROJECTS = 'projects';
+const IMAGES = 'images'; // Per-image metadata (adjustments, regions)
+const BLOBS = 'blobs';   // Original file bytes, written once on import
+const FONTS = 'fonts';   // Uploaded brand fonts, shared by all projects
+
+const LAST_PROJECT_KEY = 'lumina_last_project';
+
+interface StoredBlob {
+  id: string;
+  projectId: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS)) {
+        db.createObjectStore(PROJECTS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(IMAGES)) {
+        db.createObjectStore(IMAGES, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+      }
+      if (!db.objectStoreNames.contains(BLOBS)) {
+        db.createObjectStore(BLOBS, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+      }
+      if (!db.objectStoreNames.contains(FONTS)) {
+        db.createObjectStore(FONTS, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+// Helper: wrap an IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Helper: resolves when the whole transaction has been committed
+const done = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const getKeysByProject = (store: IDBObjectStore, projectId: string): Promise<IDBValidKey[]> => {
+  return promisify(store.index('projectId').getAllKeys(IDBKeyRange.only(projectId)));
+};
+
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string | null) => {
+  if (id) localStorage.setItem(LAST_PROJECT_KEY, id);
+  else localStorage.removeItem(LAST_PROJECT_KEY);
+};
+
+// Stores the original bytes of freshly imported images
+export const saveImageBlobs = async (projectId: string, items: { id: string; blob: Blob }[]) => {
+  const db = await openDb();
+  const tx = db.transaction(BLOBS, 'readwrite');
+  const store = tx.objectStore(BLOBS);
+  items.forEach(item => store.put({ id: item.id, projectId, blob: item.blob } as StoredBlob));
+  await done(tx);
+};
+
+// Writes the project record and the metadata of every image. Records of images
+// that are no longer part of the project are removed together with their blobs.
+export const saveProject = async (project: ProjectRecord, images: ImageFile[]) => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES, BLOBS], 'readwrite');
+  const imageStore = tx.objectStore(IMAGES);
+  const blobStore = tx.objectStore(BLOBS);
+
+  tx.objectStore(PROJECTS).put(project);
+
+  images.forEach(img => {
+    const record: StoredImage = {
+      id: img.id,
+      projectId: project.id,
+      name: img.name,
+      type: img.type,
+      adjustments: img.adjustments,
+      privacyRegions: img.privacyRegions,
+      manualRegions: img.manualRegions,
+      metadata: img.metadata,
+      room: img.room,
+      contentHash: img.contentHash,
+    };
+    imageStore.put(record);
+  });
+
+  const currentIds = new Set(images.map(i => i.id));
+  const storedIds = await getKeysByProject(imageStore, project.id);
+  storedIds.forEach(key => {
+    if (!currentIds.has(key as string)) {
+      imageStore.delete(key);
+      blobStore.delete(key);
+    }
+  });
+
+  await done(tx);
+};
+
+// Loads a project with its images. Images whose blob is missing are skipped.
+export const loadProject = async (
+  projectId: string
+): Promise<{ project: ProjectRecord; images: (StoredImage & { blob: Blob })[] } | null> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES, BLOBS], 'readonly');
+
+  const project = await promisify<ProjectRecord | undefined>(tx.objectStore(PROJECTS).get(projectId));
+  if (!project) return null;
+
+  const records = await promisify<StoredImage[]>(
+    tx.objectStore(IMAGES).index('projectId').getAll(IDBKeyRange.only(projectId))
+  );
+  const blobs = await promisify<StoredBlob[]>(
+    tx.objectStore(BLOBS).index('projectId').getAll(IDBKeyRange.only(projectId))
+  );
+  const blobMap = new Map(blobs.map(b => [b.id, b.blob]));
+
+  // Keep the strip order saved in the project record
+  const order = new Map(project.imageIds.map((id, idx) => [id, idx]));
+  const images = records
+    .filter(r => blobMap.has(r.id))
+    .sort((a, b) => (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity))
+    .map(r => ({ ...r, blob: blobMap.get(r.id)! }));
+
+  return { project, images };
+};
+
+// Most recently edited first
+export const listProjects = async (): Promise<ProjectRecord[]> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, 'readonly');
+  const projects = await promisify<ProjectRecord[]>(tx.objectStore(PROJECTS).getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteProject = async (projectId: string) => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES, BLOBS], 'readwrite');
+  const imageStore = tx.objectStore(IMAGES);
+  const blobStore = tx.objectStore(BLOBS);
+
+  tx.objectStore(PROJECTS).delete(projectId);
+  (await getKeysByProject(imageStore, projectId)).forEach(key => imageStore.delete(key));
+  (await getKeysByProject(blobStore, projectId)).forEach(key => blobStore.delete(key));
+
+  await done(tx);
+  if (getLastProjectId() === projectId) setLastProjectId(null);
+};
+
+export const listBrandFonts = async (): Promise<BrandFont[]> => {
+  const db = await openDb();
+  const tx = db.transaction(FONTS, 'readonly');
+  return promisify<BrandFont[]>(tx.objectStore(FONTS).getAll());
+};
+
+export const saveBrandFont = async (font: BrandFont) => {
+  const db = await openDb();
+  const tx = db.transaction(FONTS, 'readwrite');
+  tx.objectStore(FONTS).put(font);
+  await done(tx);
+};
+
+export const deleteBrandFont = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction(FONTS, 'readwrite');
+  tx.objectStore(FONTS).delete(id);
+  await done(tx);
+};
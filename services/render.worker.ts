@@ -0,0 +1,79 @@
+import { Adjustments, BrandFont, ExportMetadata, ExportSettings, PhotoMetadata, RedactionRegion } from '../types';
+import { encodeCanvas } from './exportEncoder';
+import { getPerspectiveTransform } from './perspective';
+import { LayerSources, prepareSource, renderPipeline } from './renderPipeline';
+import { getImageSources } from './layers';
+import { registerBrandFonts } from './fonts';
+
+// Export renderer running off the main thread (OffscreenCanvas + createImageBitmap)
+
+export interface RenderRequest {
+  id: string;
+  blob: Blob;
+  adjustments: Adjustments;
+  privacyRegions: RedactionRegion[];
+  settings: ExportSettings;
+  metadata?: PhotoMetadata;
+  exportMetadata: ExportMetadata;
+  fonts: BrandFont[];
+}
+
+export type RenderResponse =
+  | { id: string; blob: Blob }
+  | { id: string; error: string };
+
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<RenderRequest>) => void) | null;
+  postMessage: (message: RenderResponse) => void;
+  fonts: FontFaceSet;
+};
+
+// The same logos are used for the whole batch, keep them decoded
+const bitmapCache = new Map<string, ImageBitmap>();
+const MAX_CACHED_BITMAPS = 8;
+
+const getLayerSources = async (adjustments: Adjustments): Promise<LayerSources> => {
+  const sources: LayerSources = new Map();
+  for (const src of getImageSources(adjustments)) {
+    try {
+      let bitmap = bitmapCache.get(src);
+      if (!bitmap) {
+        bitmap = await createImageBitmap(await (await fetch(src)).blob());
+        if (bitmapCache.size >= MAX_CACHED_BITMAPS) {
+          const [oldest] = bitmapCache.keys();
+          bitmapCache.get(oldest)?.close();
+          bitmapCache.delete(oldest);
+        }
+        bitmapCache.set(src, bitmap);
+      }
+      sources.set(src, bitmap);
+    } catch (err) {
+      console.error("Error drawing overlay", err);
+    }
+  }
+  return sources;
+};
+
+scope.onmessage = async (e) => {
+  const { id, blob, adjustments, privacyRegions, settings, metadata, exportMetadata, fonts } = e.data;
+  let source: ImageBitmap | null = null;
+
+  try {
+    source = await createImageBitmap(blob);
+
+    const layerSources = await getLayerSources(adjustments);
+    // Fonts are registered once per worker, before the text is measured
+    await registerBrandFonts(fonts, scope.fonts).catch(err => console.error("Failed to load fonts", err));
+
+    const canvas = new OffscreenCanvas(1, 1);
+    const prepared = prepareSource(source, getPerspectiveTransform(adjustments));
+    renderPipeline(canvas, prepared, adjustments, privacyRegions, layerSources);
+
+    const result = await encodeCanvas(canvas, settings, metadata, exportMetadata);
+    scope.postMessage({ id, blob: result });
+  } catch (err) {
+    scope.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+  } finally {
+    source?.close();
+  }
+};
@@ -0,0 +1,530 @@
+import { Adjustments, BoundingBox, FlyerTemplate, Listing, OverlayLayer, RedactionRegion, RedactionSettings, WatermarkStyle } from '../types';
+import { AnyCanvas, AnyContext2D, SizedImageSource, createCanvas, getContext2D } from './canvas';
+import { Geometry, computeGeometry, mapBoxToOutput } from './geometry';
+import { getWatermarkFont } from './fonts';
+import { getAnchoredCenter } from './layers';
+import { formatFlyerText } from './flyers';
+import { PerspectiveTransform, getWarpedSize, mapBoxThroughPerspective, warpPerspective } from './perspective';
+
+// Shared render core. The live preview (downscaled) and the export (full resolution)
+// both go through renderPipeline, so every adjustment is drawn the same way.
+
+// Source after the (expensive) perspective warp, cached by the preview between renders
+export interface PreparedSource {
+  base: SizedImageSource;
+  perspective: PerspectiveTransform | null;
+  width: number;  // Full-resolution size of base (base itself may be downsampled)
+  height: number;
+}
+
+export interface RenderOptions {
+  maxSize?: number;         // Long edge limit of the output, used by the preview
+  ignoreCrop?: boolean;     // Show the full frame (crop editor)
+  neutralGeometry?: boolean; // Skip rotation/flip/straighten/crop (perspective guide editor)
+  drawOverlays?: boolean;   // Tiled watermark + layers + text watermark, default true
+  flyer?: FlyerInput;       // Social post template, drawn on top of everything
+}
+
+export interface FlyerInput {
+  template: FlyerTemplate;
+  listing: Listing;
+}
+
+// Where a layer landed, relative to the output (0-1), before its rotation
+export interface LayerBox {
+  id: string;
+  x: number; // Center
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+export interface RenderResult {
+  geometry: Geometry;
+  regions: BoundingBox[]; // Privacy regions in output space (0-1000)
+  layers: LayerBox[];
+}
+
+// Decoded layer (tiled logo, redaction sticker) images keyed by src
+export type LayerSources = Map<string, SizedImageSource>;
+
+// scale keeps blur identical between the preview and the full-size export
+export const generateCssFilterString = (adj: Adjustments, scale: number = 1): string => {
+  return `
+    brightness(${adj.brightness}%)
+    contrast(${adj.contrast}%)
+    saturate(${adj.saturation}%)
+    blur(${adj.blur * scale}px)
+    sepia(${adj.sepia}%)
+    grayscale(${adj.grayscale}%)
+  `.trim();
+};
+
+export const prepareSource = (
+  source: SizedImageSource,
+  perspective: PerspectiveTransform | null,
+  maxSize?: number
+): PreparedSource => {
+  if (!perspective) {
+    return { base: source, perspective: null, width: source.width, height: source.height };
+  }
+  const full = getWarpedSize(source.width, source.height, perspective);
+  return { base: warpPerspective(source, perspective, maxSize), perspective, ...full };
+};
+
+// Draws the source through the rotation/flip/straighten/crop transform.
+// outputScale shrinks the result (preview), sourceScale accounts for a downsampled source.
+export const drawGeometry = (
+  ctx: AnyContext2D,
+  source: CanvasImageSource,
+  geometry: Geometry,
+  outputScale: number = 1,
+  sourceScale: number = 1
+) => {
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.setTransform(new DOMMatrix().scale(outputScale).multiply(geometry.matrix).scale(1 / sourceScale));
+  ctx.drawImage(source, 0, 0);
+  ctx.restore();
+};
+
+// Maps privacy regions detected on the original through perspective and geometry.
+// width/height are the size of the (possibly warped) image the geometry was computed for.
+export const mapRegionsToOutput = (
+  regions: RedactionRegion[],
+  perspective: PerspectiveTransform | null,
+  width: number,
+  height: number,
+  geometry: Geometry
+): RedactionRegion[] => {
+  return regions.flatMap(region => {
+    const warped = perspective ? mapBoxThroughPerspective(region.box, perspective) : region.box;
+    const box = warped && mapBoxToOutput(warped, width, height, geometry);
+    return box ? [{ ...region, box }] : [];
+  });
+};
+
+// Each block gets the average colour of its pixels: the area is shrunk with smoothing
+// to one pixel per block, then scaled back up without it
+const pixelateArea = (ctx: AnyContext2D, canvas: AnyCanvas, x: number, y: number, w: number, h: number, blockSize: number) => {
+  const sx = Math.max(0, Math.floor(x));
+  const sy = Math.max(0, Math.floor(y));
+  const sw = Math.min(canvas.width, Math.ceil(x + w)) - sx;
+  const sh = Math.min(canvas.height, Math.ceil(y + h)) - sy;
+  if (sw <= 0 || sh <= 0) return;
+
+  const cols = Math.max(1, Math.round(sw / blockSize));
+  const rows = Math.max(1, Math.round(sh / blockSize));
+  const small = createCanvas(cols, rows);
+  const sCtx = getContext2D(small);
+  if (!sCtx) return;
+  sCtx.imageSmoothingEnabled = true;
+  sCtx.imageSmoothingQuality = 'high';
+  sCtx.drawImage(canvas, sx, sy, sw, sh, 0, 0, cols, rows);
+
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(small, 0, 0, cols, rows, sx, sy, sw, sh);
+  ctx.imageSmoothingEnabled = true;
+};
+
+// Gaussian blur of the area, read with a margin so its edges blend with the surroundings.
+// The blur fades to transparent at the photo's border, so the area is pixelated first:
+// whatever shows through there is already unreadable.
+const blurArea = (ctx: AnyContext2D, canvas: AnyCanvas, x: number, y: number, w: number, h: number, radius: number) => {
+  pixelateArea(ctx, canvas, x, y, w, h, radius);
+
+  const pad = Math.ceil(radius * 2);
+  const sx = Math.max(0, Math.floor(x) - pad);
+  const sy = Math.max(0, Math.floor(y) - pad);
+  const sw = Math.min(canvas.width, Math.ceil(x + w) + pad) - sx;
+  const sh = Math.min(canvas.height, Math.ceil(y + h) + pad) - sy;
+  if (sw <= 0 || sh <= 0) return;
+
+  const scratch = createCanvas(sw, sh);
+  const sCtx = getContext2D(scratch);
+  if (!sCtx) return;
+  sCtx.filter = `blur(${radius}px)`;
+  sCtx.drawImage(canvas, sx, sy, sw, sh, 0, 0, sw, sh);
+  ctx.drawImage(scratch, sx, sy);
+};
+
+const EMOJI_FONT = '"Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif';
+
+// Emoji or logo fitted inside the area, centered
+const drawSticker = (ctx: AnyContext2D, x: number, y: number, w: number, h: number, settings: RedactionSettings, sources: LayerSources) => {
+  const logo = settings.sticker === 'logo' && settings.logo ? sources.get(settings.logo) : undefined;
+  if (logo) {
+    const scale = Math.min(w / logo.width, h / logo.height);
+    const lw = logo.width * scale;
+    const lh = logo.height * scale;
+    ctx.drawImage(logo, x + (w - lw) / 2, y + (h - lh) / 2, lw, lh);
+    return;
+  }
+  ctx.font = `${Math.min(w, h) * 0.9}px ${EMOJI_FONT}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(settings.emoji || '🙂', x + w / 2, y + h / 2);
+};
+
+// Regions are in output space (0-1000). Sizes are fractions of the short edge, so the
+// downscaled preview looks exactly like the full-size export.
+const redactRegions = (
+  ctx: AnyContext2D,
+  canvas: AnyCanvas,
+  regions: RedactionRegion[],
+  settings: RedactionSettings,
+  sources: LayerSources
+) => {
+  const shortEdge = Math.min(canvas.width, canvas.height);
+  const blockSize = Math.max(1, settings.blockSize * shortEdge);
+
+  regions.forEach(({ box, style, shape }) => {
+    const x = (box.xmin / 1000) * canvas.width;
+    const y = (box.ymin / 1000) * canvas.height;
+    const w = ((box.xmax - box.xmin) / 1000) * canvas.width;
+    const h = ((box.ymax - box.ymin) / 1000) * canvas.height;
+    if (w < 1 || h < 1) return;
+
+    ctx.save();
+    ctx.beginPath();
+    if (shape === 'ellipse') ctx.ellipse(x + w / 2, y + h / 2, w / 2, h / 2, 0, 0, Math.PI * 2);
+    else ctx.rect(x, y, w, h);
+    ctx.clip();
+
+    if (style === 'blur') {
+      blurArea(ctx, canvas, x, y, w, h, Math.max(1, settings.blurRadius * shortEdge));
+    } else if (style === 'fill') {
+      ctx.fillStyle = settings.fillColor;
+      ctx.fillRect(x, y, w, h);
+    } else {
+      // A sticker rarely covers a non-square box, so the area under it is pixelated too
+      pixelateArea(ctx, canvas, x, y, w, h, blockSize);
+    }
+    ctx.restore();
+
+    // Not clipped: a logo in an ellipse would lose its corners
+    if (style === 'sticker') {
+      ctx.save();
+      drawSticker(ctx, x, y, w, h, settings, sources);
+      ctx.restore();
+    }
+  });
+};
+
+// Draws one layer around its center; returns its box, or null when it has nothing to draw
+const drawLayer = (ctx: AnyContext2D, canvas: AnyCanvas, layer: OverlayLayer, sources: LayerSources): LayerBox | null => {
+  let width: number;
+  let height: number;
+  let draw: () => void;
+
+  if (layer.kind === 'image') {
+    const image = sources.get(layer.src);
+    if (!image) return null;
+    width = Math.min(canvas.width, canvas.height) * layer.scale;
+    height = width / (image.width / image.height);
+    draw = () => ctx.drawImage(image, -width / 2, -height / 2, width, height);
+  } else {
+    if (!layer.text.trim()) return null;
+    const fontSize = Math.max(1, Math.min(canvas.width, canvas.height) * layer.scale);
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    width = ctx.measureText(layer.text).width;
+    height = fontSize * 1.2;
+    draw = () => {
+      ctx.fillStyle = layer.color;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(layer.text, 0, 0);
+    };
+  }
+
+  const { x: cx, y: cy } = getAnchoredCenter(layer, width, height, canvas.width, canvas.height);
+  ctx.save();
+  ctx.globalAlpha = layer.opacity;
+  ctx.globalCompositeOperation = layer.blendMode;
+  ctx.translate(cx, cy);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  draw();
+  ctx.restore();
+
+  return {
+    id: layer.id,
+    x: cx / canvas.width,
+    y: cy / canvas.height,
+    width: width / canvas.width,
+    height: height / canvas.height,
+    rotation: layer.rotation,
+  };
+};
+
+// Repeats the logo or text on a grid rotated around the center, rows offset like bricks.
+// Tiles touching privacy regions (output space, 0-1000) are skipped when asked to.
+const drawTiledWatermark = (
+  ctx: AnyContext2D,
+  canvas: AnyCanvas,
+  adjustments: Adjustments,
+  regions: BoundingBox[],
+  sources: LayerSources
+) => {
+  const tiled = adjustments.tiledWatermark;
+  const tileHeight = canvas.width * tiled.size;
+  let tileWidth: number;
+  let draw: () => void;
+
+  ctx.save();
+  if (tiled.content === 'logo') {
+    const image = tiled.logo ? sources.get(tiled.logo) : undefined;
+    if (!image) {
+      ctx.restore();
+      return;
+    }
+    tileWidth = tileHeight * (image.width / image.height);
+    draw = () => ctx.drawImage(image, -tileWidth / 2, -tileHeight / 2, tileWidth, tileHeight);
+  } else {
+    const text = tiled.text.trim();
+    if (!text) {
+      ctx.restore();
+      return;
+    }
+    ctx.font = getWatermarkFont(adjustments.watermarkStyle, tileHeight);
+    ctx.fillStyle = adjustments.watermarkStyle.color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    tileWidth = ctx.measureText(text).width;
+    draw = () => ctx.fillText(text, 0, 0);
+  }
+  ctx.globalAlpha = tiled.opacity;
+
+  const gap = canvas.width * tiled.spacing;
+  const stepX = tileWidth + gap;
+  const stepY = tileHeight + gap;
+  const angle = (tiled.angle * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  // Half size of a rotated tile's bounding box, for the overlap tests
+  const halfW = (Math.abs(cos) * tileWidth + Math.abs(sin) * tileHeight) / 2;
+  const halfH = (Math.abs(sin) * tileWidth + Math.abs(cos) * tileHeight) / 2;
+
+  const blocked = tiled.avoidPrivacy ? regions.map(box => ({
+    x0: (box.xmin / 1000) * canvas.width,
+    y0: (box.ymin / 1000) * canvas.height,
+    x1: (box.xmax / 1000) * canvas.width,
+    y1: (box.ymax / 1000) * canvas.height,
+  })) : [];
+
+  // The rotated grid has to cover the canvas corners
+  const reach = Math.hypot(canvas.width, canvas.height) / 2 + Math.max(stepX, stepY);
+  const rows = Math.ceil(reach / stepY);
+  const cols = Math.ceil(reach / stepX);
+  const cx = canvas.width / 2;
+  const cy = canvas.height / 2;
+
+  for (let row = -rows; row <= rows; row++) {
+    const v = row * stepY;
+    const shift = row % 2 === 0 ? 0 : stepX / 2;
+    for (let col = -cols; col <= cols; col++) {
+      const u = col * stepX + shift;
+      const x = cx + u * cos - v * sin;
+      const y = cy + u * sin + v * cos;
+      if (x + halfW < 0 || x - halfW > canvas.width || y + halfH < 0 || y - halfH > canvas.height) continue;
+      if (blocked.some(r => x + halfW > r.x0 && x - halfW < r.x1 && y + halfH > r.y0 && y - halfH < r.y1)) continue;
+
+      ctx.setTransform(cos, sin, -sin, cos, x, y);
+      draw();
+    }
+  }
+  ctx.restore();
+};
+
+// Multi-line text block anchored to a corner. Every size is relative to the canvas width,
+// so the downscaled preview matches the export.
+const drawTextWatermark = (ctx: AnyContext2D, canvas: AnyCanvas, text: string, style: WatermarkStyle) => {
+  const lines = text.split('\n');
+  const fontSize = canvas.width * style.size;
+  const lineHeight = fontSize * 1.25;
+  const isRight = style.anchor.endsWith('right');
+  const isBottom = style.anchor.startsWith('bottom');
+
+  ctx.save();
+  ctx.font = getWatermarkFont(style, fontSize);
+  const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+  const padX = style.background ? fontSize * 0.6 : 0;
+  const padY = style.background ? fontSize * 0.3 : 0;
+  const boxWidth = textWidth + padX * 2;
+  const boxHeight = lines.length * lineHeight + padY * 2;
+  const margin = canvas.width * style.margin;
+  const boxX = isRight ? canvas.width - margin - boxWidth : margin;
+  const boxY = isBottom ? canvas.height - margin - boxHeight : margin;
+
+  if (style.background) {
+    ctx.globalAlpha = style.backgroundOpacity;
+    ctx.fillStyle = style.backgroundColor;
+    ctx.beginPath();
+    ctx.roundRect(boxX, boxY, boxWidth, boxHeight, Math.min(boxHeight / 2, fontSize));
+    ctx.fill();
+  }
+
+  ctx.globalAlpha = style.opacity;
+  ctx.textAlign = isRight ? 'right' : 'left';
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+  const x = isRight ? boxX + boxWidth - padX : boxX + padX;
+
+  lines.forEach((line, i) => {
+    const y = boxY + padY + lineHeight * (i + 0.5);
+    if (style.shadow > 0) {
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+      ctx.shadowBlur = fontSize * style.shadow;
+    }
+    if (style.outline > 0) {
+      // The stroke is centered on the glyph edge, the fill covers its inner half
+      ctx.lineWidth = fontSize * style.outline * 2;
+      ctx.strokeStyle = style.outlineColor;
+      ctx.strokeText(line, x, y);
+      ctx.shadowColor = 'transparent';
+    }
+    ctx.fillStyle = style.color;
+    ctx.fillText(line, x, y);
+  });
+  ctx.restore();
+};
+
+// Frames first inset the bars and ribbons drawn after them
+const drawFlyer = (ctx: AnyContext2D, canvas: AnyCanvas, { template, listing }: FlyerInput) => {
+  const shortEdge = Math.min(canvas.width, canvas.height);
+  let inset = 0;
+
+  ctx.save();
+  template.elements.forEach(element => {
+    if (element.kind === 'frame') {
+      const w = shortEdge * element.width;
+      ctx.fillStyle = element.color;
+      ctx.fillRect(inset, inset, canvas.width - inset * 2, w);
+      ctx.fillRect(inset, canvas.height - inset - w, canvas.width - inset * 2, w);
+      ctx.fillRect(inset, inset, w, canvas.height - inset * 2);
+      ctx.fillRect(canvas.width - inset - w, inset, w, canvas.height - inset * 2);
+      inset += w;
+    } else if (element.kind === 'infoBar') {
+      const lines = formatFlyerText(element.text, listing);
+      if (lines.length === 0) return;
+      const fontSize = shortEdge * element.size;
+      const lineHeight = fontSize * 1.3;
+      const barHeight = lines.length * lineHeight + fontSize * 0.8;
+      const y = element.position === 'top' ? inset : canvas.height - inset - barHeight;
+
+      ctx.globalAlpha = element.opacity;
+      ctx.fillStyle = element.color;
+      ctx.fillRect(inset, y, canvas.width - inset * 2, barHeight);
+      ctx.globalAlpha = 1;
+
+      // First line is the headline (usually the price)
+      ctx.fillStyle = element.textColor;
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'middle';
+      lines.forEach((line, i) => {
+        ctx.font = `${i === 0 ? 'bold ' : ''}${fontSize}px sans-serif`;
+        ctx.fillText(line, inset + fontSize * 0.8, y + fontSize * 0.4 + lineHeight * (i + 0.5), canvas.width - inset * 2 - fontSize * 1.6);
+      });
+    } else {
+      const [text] = formatFlyerText(element.text, listing);
+      if (!text) return;
+      // Diagonal band across the corner
+      const thickness = shortEdge * 0.08;
+      const distance = shortEdge * 0.14; // From the corner to the band's center line
+      const isLeft = element.corner === 'top-left';
+      ctx.save();
+      ctx.translate(isLeft ? inset + distance : canvas.width - inset - distance, inset + distance);
+      ctx.rotate(isLeft ? -Math.PI / 4 : Math.PI / 4);
+      ctx.fillStyle = element.color;
+      ctx.fillRect(-distance * 2, -thickness / 2, distance * 4, thickness);
+      ctx.fillStyle = element.textColor;
+      ctx.font = `bold ${thickness * 0.5}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(text, 0, 0, distance * 2.4);
+      ctx.restore();
+    }
+  });
+  ctx.restore();
+};
+
+// Renders every adjustment into canvas (resized to the output size)
+export const renderPipeline = (
+  canvas: AnyCanvas,
+  prepared: PreparedSource,
+  adjustments: Adjustments,
+  privacyRegions: RedactionRegion[] = [],
+  layerSources: LayerSources = new Map(),
+  options: RenderOptions = {}
+): RenderResult => {
+  const { maxSize, ignoreCrop = false, neutralGeometry = false, drawOverlays = true, flyer } = options;
+
+  // 1. Geometry at full resolution, then the output scale for the preview
+  const geometry = neutralGeometry
+    ? computeGeometry(prepared.width, prepared.height, { ...adjustments, rotation: 0, flipH: false, flipV: false, straighten: 0, crop: null })
+    : computeGeometry(prepared.width, prepared.height, adjustments, ignoreCrop);
+  const resolutionScale = maxSize ? Math.min(1, maxSize / Math.max(geometry.width, geometry.height)) : 1;
+  const sourceScale = prepared.base.width / prepared.width;
+
+  canvas.width = Math.max(1, Math.round(geometry.width * resolutionScale));
+  canvas.height = Math.max(1, Math.round(geometry.height * resolutionScale));
+  const ctx = getContext2D(canvas);
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  drawGeometry(ctx, prepared.base, geometry, resolutionScale, sourceScale);
+
+  // 2. Privacy redaction (regions are on the original, map them to the output).
+  // Callers pass only the regions to redact (see getRedactionRegions).
+  const redacted = mapRegionsToOutput(privacyRegions, prepared.perspective, prepared.width, prepared.height, geometry);
+  if (redacted.length > 0) {
+    redactRegions(ctx, canvas, redacted, adjustments.redaction, layerSources);
+  }
+  const regions = redacted.map(r => r.box);
+
+  // 3. Global color filters (filter pass through a scratch canvas)
+  const filterCanvas = createCanvas(canvas.width, canvas.height);
+  const fCtx = getContext2D(filterCanvas);
+  if (fCtx) {
+    fCtx.filter = generateCssFilterString(adjustments, resolutionScale);
+    fCtx.drawImage(canvas, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(filterCanvas, 0, 0);
+  }
+
+  // 4. Warmth: orange wash in overlay blend mode
+  if (adjustments.warmth > 0) {
+    ctx.save();
+    ctx.globalCompositeOperation = 'overlay';
+    ctx.globalAlpha = adjustments.warmth / 500;
+    ctx.fillStyle = 'rgb(249, 115, 22)';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.restore();
+  }
+
+  const layers: LayerBox[] = [];
+  if (drawOverlays) {
+    // 5. Tiled anti-theft watermark, under the layers
+    if (adjustments.tiledWatermark.enabled) {
+      drawTiledWatermark(ctx, canvas, adjustments, regions, layerSources);
+    }
+
+    // 6. Layers (logos, badges, text), bottom to top
+    adjustments.layers.forEach(layer => {
+      const box = drawLayer(ctx, canvas, layer, layerSources);
+      if (box) layers.push(box);
+    });
+
+    // 7. Text Watermark
+    if (adjustments.watermark.trim()) {
+      drawTextWatermark(ctx, canvas, adjustments.watermark, adjustments.watermarkStyle);
+    }
+  }
+
+  // 8. Flyer template (frames, info bars, ribbons)
+  if (flyer) {
+    drawFlyer(ctx, canvas, flyer);
+  }
+
+  return { geometry, regions, layers };
+};
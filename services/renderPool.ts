@@ -0,0 +1,188 @@
+import { BatchItemStatus, BrandFont, ExportMetadata, ExportSettings, ImageFile } from '../types';
+import { DEFAULT_EXPORT_METADATA, DEFAULT_EXPORT_SETTINGS } from './exportEncoder';
+import { processImageOnCanvas } from './imageUtils';
+import { getFontsUsed, registerBrandFonts } from './fonts';
+import { getRedactionRegions } from './privacyRegions';
+import type { RenderRequest, RenderResponse } from './render.worker';
+
+export class RenderCancelledError extends Error {
+  constructor() {
+    super("Exportação cancelada.");
+    this.name = "RenderCancelledError";
+  }
+}
+
+export interface RenderPoolOptions {
+  concurrency?: number;
+  memoryBudgetMB?: number;
+  settings?: ExportSettings;
+  exportMetadata?: ExportMetadata;
+  fonts?: BrandFont[];      // Uploaded fonts, sent to the workers that need them
+  signal?: AbortSignal;
+  onProgress?: (id: string, status: BatchItemStatus, error?: string) => void;
+}
+
+export interface RenderedFile {
+  id: string;
+  blob: Blob;
+}
+
+const CONCURRENCY_KEY = 'lumina_render_concurrency';
+
+// Rough bytes per decoded pixel for one render: source bitmap, output canvas,
+// filter scratch canvas and (sometimes) the perspective copy, RGBA each
+const BYTES_PER_PIXEL = 4 * 4;
+// Typical phone JPEG: about 3 pixels per byte of file
+const PIXELS_PER_FILE_BYTE = 3;
+
+export const isWorkerRenderingSupported = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+export const getDefaultConcurrency = () => {
+  const cores = navigator.hardwareConcurrency || 2;
+  return Math.max(1, Math.min(4, cores - 1));
+};
+
+export const getSavedConcurrency = (): number => {
+  const saved = Number(localStorage.getItem(CONCURRENCY_KEY));
+  return saved >= 1 && saved <= 8 ? saved : getDefaultConcurrency();
+};
+
+export const saveConcurrency = (value: number) => localStorage.setItem(CONCURRENCY_KEY, String(value));
+
+// Budget for images in flight. Phones (and browsers without deviceMemory, e.g. Safari) get less.
+const getMemoryBudgetMB = () => {
+  const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  return deviceMemory ? Math.min(1536, deviceMemory * 128) : 384;
+};
+
+const estimateMemoryMB = (blob: Blob) => (blob.size * PIXELS_PER_FILE_BYTE * BYTES_PER_PIXEL) / (1024 * 1024);
+
+// Renders the images with a pool of workers. A job only starts when its estimated
+// memory fits in the budget next to the jobs already running (one job always runs).
+// Results keep the order of `images`.
+export const renderBatch = async (images: ImageFile[], options: RenderPoolOptions = {}): Promise<RenderedFile[]> => {
+  const {
+    concurrency = getSavedConcurrency(),
+    memoryBudgetMB = getMemoryBudgetMB(),
+    settings = DEFAULT_EXPORT_SETTINGS,
+    exportMetadata = DEFAULT_EXPORT_METADATA,
+    fonts = [],
+    signal,
+    onProgress,
+  } = options;
+
+  if (signal?.aborted) throw new RenderCancelledError();
+
+  // Fallback: main thread, one at a time
+  if (!isWorkerRenderingSupported()) {
+    await registerBrandFonts(fonts, document.fonts).catch(e => console.error("Failed to load fonts", e));
+    const results: RenderedFile[] = [];
+    for (const img of images) {
+      if (signal?.aborted) {
+        images.filter(i => !results.some(r => r.id === i.id)).forEach(i => onProgress?.(i.id, 'cancelled'));
+        throw new RenderCancelledError();
+      }
+      onProgress?.(img.id, 'rendering');
+      try {
+        const blob = await processImageOnCanvas(img.originalUrl, img.adjustments, getRedactionRegions(img), settings, img.metadata, exportMetadata);
+        results.push({ id: img.id, blob });
+        onProgress?.(img.id, 'done');
+      } catch (e) {
+        onProgress?.(img.id, 'error', e instanceof Error ? e.message : String(e));
+      }
+    }
+    return results;
+  }
+
+  // The abort listener is only added below, so a cancel during loading is checked here
+  const cancelLoading = () => {
+    images.forEach(i => onProgress?.(i.id, 'cancelled'));
+    return new RenderCancelledError();
+  };
+  const blobs = new Map<string, Blob>();
+  for (const img of images) {
+    if (signal?.aborted) throw cancelLoading();
+    blobs.set(img.id, await (await fetch(img.originalUrl)).blob());
+  }
+  if (signal?.aborted) throw cancelLoading();
+
+  const workerCount = Math.max(1, Math.min(concurrency, images.length));
+  const workers = Array.from({ length: workerCount }, () =>
+    new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' })
+  );
+
+  return new Promise<RenderedFile[]>((resolve, reject) => {
+    const queue = [...images];
+    const idle = [...workers];
+    const running = new Map<string, number>(); // id -> estimated MB
+    const results = new Map<string, Blob>();
+    let finished = false;
+
+    const finish = (error?: Error) => {
+      if (finished) return;
+      finished = true;
+      workers.forEach(w => w.terminate());
+      signal?.removeEventListener('abort', handleAbort);
+      if (error) reject(error);
+      else resolve(images.filter(i => results.has(i.id)).map(i => ({ id: i.id, blob: results.get(i.id)! })));
+    };
+
+    const handleAbort = () => {
+      [...running.keys(), ...queue.map(i => i.id)].forEach(id => onProgress?.(id, 'cancelled'));
+      finish(new RenderCancelledError());
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    const memoryInUse = () => Array.from(running.values()).reduce((sum, mb) => sum + mb, 0);
+
+    const schedule = () => {
+      if (finished) return;
+      while (idle.length > 0 && queue.length > 0) {
+        const next = queue[0];
+        const cost = estimateMemoryMB(blobs.get(next.id)!);
+        if (running.size > 0 && memoryInUse() + cost > memoryBudgetMB) break;
+
+        queue.shift();
+        const worker = idle.pop()!;
+        running.set(next.id, cost);
+        onProgress?.(next.id, 'rendering');
+
+        const request: RenderRequest = {
+          id: next.id,
+          blob: blobs.get(next.id)!,
+          adjustments: next.adjustments,
+          privacyRegions: getRedactionRegions(next),
+          settings,
+          metadata: next.metadata,
+          exportMetadata,
+          fonts: getFontsUsed(fonts, next.adjustments),
+        };
+        worker.postMessage(request);
+      }
+      if (running.size === 0 && queue.length === 0) finish();
+    };
+
+    workers.forEach(worker => {
+      worker.onmessage = (e: MessageEvent<RenderResponse>) => {
+        const response = e.data;
+        running.delete(response.id);
+        idle.push(worker);
+
+        if ('blob' in response) {
+          results.set(response.id, response.blob);
+          onProgress?.(response.id, 'done');
+        } else {
+          onProgress?.(response.id, 'error', response.error);
+        }
+        schedule();
+      };
+      worker.onerror = (e) => {
+        console.error("Render worker crashed", e);
+        finish(new Error(e.message || "Falha no processo de renderização."));
+      };
+    });
+
+    schedule();
+  });
+};
@@ -0,0 +1,52 @@
+import { Adjustments, ImageFile } from '../types';
+import { DEFAULT_ADJUSTMENTS } from '../constants';
+import { canvasToBlob, createCanvas, getContext2D } from './canvas';
+
+// Strip thumbnails are 80px squares; 2x for high-DPI screens
+export const THUMBNAIL_SIZE = 160;
+
+export type ThumbnailFilter = 'all' | 'edited' | 'privacyPending' | 'overlay';
+
+export const THUMBNAIL_FILTERS: { value: ThumbnailFilter; label: string }[] = [
+  { value: 'all', label: 'Todas' },
+  { value: 'edited', label: 'Editadas' },
+  { value: 'privacyPending', label: 'Privacidade pendente' },
+  { value: 'overlay', label: 'Com logo' },
+];
+
+// Center-cropped square, so the strip never decodes full-size photos
+export const createThumbnail = async (source: Blob, size = THUMBNAIL_SIZE): Promise<Blob> => {
+  const bitmap = await createImageBitmap(source);
+  const side = Math.min(bitmap.width, bitmap.height);
+  const canvas = createCanvas(size, size);
+  const ctx = getContext2D(canvas)!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side, 0, 0, size, size);
+  bitmap.close();
+  return canvasToBlob(canvas, 'image/jpeg', 0.8);
+};
+
+// Compared by value: saved projects hold copies of the default arrays/objects
+const isEdited = (adjustments: Adjustments) =>
+  (Object.keys(DEFAULT_ADJUSTMENTS) as (keyof Adjustments)[]).some(key =>
+    JSON.stringify(adjustments[key]) !== JSON.stringify(DEFAULT_ADJUSTMENTS[key])
+  );
+
+export const matchesFilter = (image: ImageFile, filter: ThumbnailFilter) => {
+  switch (filter) {
+    case 'edited': return isEdited(image.adjustments);
+    case 'privacyPending': return image.adjustments.privacyBlur && !image.privacyRegions;
+    case 'overlay': return image.adjustments.layers.length > 0;
+    default: return true;
+  }
+};
+
+// Moves `ids` (kept in their current relative order) in front of `beforeId`, or to the end
+export const reorderIds = (order: string[], ids: string[], beforeId: string | null): string[] => {
+  const moving = new Set(ids);
+  if (beforeId && moving.has(beforeId)) return order; // Dropped onto itself
+  const moved = order.filter(id => moving.has(id));
+  const rest = order.filter(id => !moving.has(id));
+  const index = beforeId ? rest.indexOf(beforeId) : rest.length;
+  return [...rest.slice(0, index), ...moved, ...rest.slice(index)];
+};
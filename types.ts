@@ -1,3 +1,62 @@
+export type WatermarkAnchor = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// Sizes are relative so the preview (downscaled) and the export look the same
+export interface WatermarkStyle {
+  fontFamily: string;      // System family or the family of an uploaded BrandFont
+  bold: boolean;
+  italic: boolean;
+  size: number;            // Font size as a fraction of the image width
+  color: string;
+  opacity: number;         // 0-1
+  outline: number;         // Stroke width as a fraction of the font size, 0 = none
+  outlineColor: string;
+  shadow: number;          // Shadow blur as a fraction of the font size, 0 = none
+  background: boolean;     // Rounded pill behind the text
+  backgroundColor: string;
+  backgroundOpacity: number; // 0-1
+  anchor: WatermarkAnchor;
+  margin: number;          // Distance to the anchored edges as a fraction of the image width
+}
+
+// Logo or text repeated over the whole photo, so a cropped repost still carries it
+export interface TiledWatermark {
+  enabled: boolean;
+  content: 'text' | 'logo';
+  text: string;           // Drawn with the text watermark's font and color
+  logo: string | null;    // Data URL
+  angle: number;          // Degrees, -90 to 90
+  size: number;           // Tile height as a fraction of the image width
+  spacing: number;        // Gap between tiles as a fraction of the image width
+  opacity: number;        // 0-1
+  avoidPrivacy: boolean;  // Leave out tiles that touch privacy regions
+}
+
+export type RedactionStyle = 'pixelate' | 'blur' | 'fill' | 'sticker';
+
+// 'auto' masks faces with an ellipse and everything else (plates) with a rectangle
+export type RedactionShape = 'auto' | 'rectangle' | 'ellipse';
+
+// How privacy regions are hidden. Manual regions may override style and shape;
+// the parameters below are shared by every region of the photo.
+export interface RedactionSettings {
+  style: RedactionStyle;
+  shape: RedactionShape;
+  blockSize: number;   // Pixelate block, fraction of the short edge
+  blurRadius: number;  // Gaussian blur radius, fraction of the short edge
+  fillColor: string;
+  sticker: 'emoji' | 'logo';
+  emoji: string;
+  logo: string | null; // Data URL
+}
+
+// Font file uploaded by the user, stored in IndexedDB and registered as a FontFace
+export interface BrandFont {
+  id: string;
+  family: string;
+  name: string; // Original file name
+  data: Blob;
+}
+
 export interface Adjustments {
   brightness: number; // 0-200, default 100
   contrast: number;   // 0-200, default 100
@@ -7,17 +66,89 @@ export interface Adjustments {
   grayscale: number;  // 0-100, default 0
   warmth: number;     // 0-100 (simulated via sepia/hue), default 0
   
-  // Legacy text watermark (can be kept or deprecated)
+  // Text watermark ("Texto Rodapé"), may span several lines
   watermark: string;
+  watermarkStyle: WatermarkStyle;
+  tiledWatermark: TiledWatermark;
 
-  // Image Element / Watermark
-  overlayImage: string | null; // Base64 string of the uploaded logo/element
-  overlayX: number; // 0-1 (Percentage of width)
-  overlayY: number; // 0-1 (Percentage of height)
-  overlayScale: number; // 0.1 - 2.0 (Scale factor relative to image size)
-  overlayOpacity: number; // 0-1
+  // Logos, badges and text drawn over the photo. Array order is the z-order (last on top).
+  layers: OverlayLayer[];
 
   privacyBlur: boolean; // Blur faces/plates
+  redaction: RedactionSettings;
+
+  // Geometry (applied before privacy blur and overlays)
+  rotation: number;   // 0, 90, 180, 270 (clockwise)
+  flipH: boolean;
+  flipV: boolean;
+  straighten: number; // -45 to 45 degrees, fine rotation with auto-fill
+  crop: CropRect | null; // Relative to the rotated/straightened frame, null = full frame
+
+  // Perspective (keystone) correction, applied to the original before the geometry above
+  perspectiveV: number; // -100 to 100, positive widens the top
+  perspectiveH: number; // -100 to 100, positive widens the left side
+  perspectiveGuide: Point[] | null; // Two lines [a1, a2, b1, b2] (0-1) made parallel; overrides the sliders
+}
+
+export type LayerBlendMode = 'source-over' | 'multiply' | 'screen' | 'overlay' | 'soft-light' | 'difference';
+
+export type LayerAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+// Placement is relative to the short edge, so one config looks the same on portrait and landscape photos
+interface LayerBase {
+  id: string;
+  name: string;
+  anchor: LayerAnchor;
+  margin: number;   // Distance to the anchored edges, fraction of the short edge
+  offsetX: number;  // Nudge from the anchored position (dragging), fraction of the short edge
+  offsetY: number;
+  scale: number;    // Image: width relative to the short edge. Text: font size relative to the short edge.
+  rotation: number; // Degrees, clockwise
+  opacity: number;  // 0-1
+  blendMode: LayerBlendMode;
+}
+
+export interface ImageLayer extends LayerBase {
+  kind: 'image';
+  src: string; // Data URL of the uploaded logo/element
+}
+
+export interface TextLayer extends LayerBase {
+  kind: 'text';
+  text: string;
+  color: string;
+}
+
+export type OverlayLayer = ImageLayer | TextLayer;
+
+// Layers saved before anchors: center relative to the output, scale relative to its width
+export interface LegacyLayerPosition {
+  x?: number;
+  y?: number;
+}
+
+// Adjustments saved before layers existed (configs, presets, projects)
+export interface LegacyOverlayFields {
+  overlayImage?: string | null;
+  overlayX?: number;
+  overlayY?: number;
+  overlayScale?: number;
+  overlayOpacity?: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface CropRect {
+  x: number;      // 0-1
+  y: number;      // 0-1
+  width: number;  // 0-1
+  height: number; // 0-1
 }
 
 export interface BoundingBox {
@@ -25,6 +156,24 @@ export interface BoundingBox {
   xmin: number;
   ymax: number;
   xmax: number;
+  label?: 'face' | 'plate'; // Set by detection
+}
+
+// User edit of the privacy regions, on the original image (0-1000 like detections).
+// 'ignore' hides a detected box it overlaps (false positive); it survives re-detection.
+export interface ManualRegion {
+  id: string;
+  box: BoundingBox;
+  mode: 'blur' | 'ignore';
+  style?: RedactionStyle; // Overrides the photo's redaction settings
+  shape?: RedactionShape;
+}
+
+// A region handed to the render core, with its style and shape resolved
+export interface RedactionRegion {
+  box: BoundingBox;
+  style: RedactionStyle;
+  shape: 'rectangle' | 'ellipse';
 }
 
 export interface ImageFile {
@@ -34,7 +183,105 @@ export interface ImageFile {
   name: string;
   type: string;
   adjustments: Adjustments; // Per-image adjustments
-  privacyRegions?: BoundingBox[]; // Cached detection data
+  privacyRegions?: BoundingBox[]; // Cached detection data, replaced when detection runs again
+  manualRegions?: ManualRegion[]; // Drawn or corrected by the user, kept across detections
+  metadata?: PhotoMetadata; // From the original EXIF, read on import
+  room?: string; // Room label used in export file names
+  thumbnailUrl?: string; // Small square for the strip, generated after import
+  contentHash?: string; // SHA-256 of the original bytes, keys the AI cache
+}
+
+// What we keep from the original file's EXIF (everything else is dropped on export)
+export interface PhotoMetadata {
+  captureDate: string | null; // EXIF format "YYYY:MM:DD HH:MM:SS"
+}
+
+// Persisted project (IndexedDB). Images are stored separately, see StoredImage.
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  imageIds: string[]; // Strip order
+  selectedImageIds: string[];
+  viewImageId: string | null;
+  listings: Listing[];
+  activeListingId: string | null;
+}
+
+export type PropertyType = 'apartamento' | 'casa' | 'cobertura' | 'terreno' | 'comercial' | 'rural' | 'outro';
+
+export type ListingStatus = 'none' | 'novo' | 'vendido' | 'alugado' | 'reservado' | 'oportunidade';
+
+// A property (imóvel): groups the photos of one listing, in publishing order
+export interface Listing {
+  id: string;
+  code: string;                   // Used by {codigo_imovel} in export file names
+  address: string;
+  type: PropertyType;
+  coverImageId: string | null;
+  imageIds: string[];             // Strip order for this listing
+  defaultConfigId: string | null; // UserConfig applied to new photos
+
+  // Attributes shown by flyer templates ({preco}, {quartos}, ...)
+  status: ListingStatus;
+  price: number | null;           // R$
+  bedrooms: number | null;
+  area: number | null;            // m²
+  flyerTemplateId: string | null; // Last template used for this listing's post
+}
+
+// Social post / flyer: frames, ribbons and info bars drawn over the cover photo.
+// Texts may contain listing tokens ({preco}, {status}, ...). Sizes are fractions of the short edge.
+export interface FlyerFrame {
+  id: string;
+  kind: 'frame';
+  color: string;
+  width: number;
+}
+
+export interface FlyerRibbon {
+  id: string;
+  kind: 'ribbon';
+  corner: 'top-left' | 'top-right';
+  text: string;
+  color: string;
+  textColor: string;
+}
+
+export interface FlyerInfoBar {
+  id: string;
+  kind: 'infoBar';
+  position: 'top' | 'bottom';
+  text: string;     // One line per \n
+  size: number;     // Font size
+  color: string;
+  opacity: number;  // 0-1, background only
+  textColor: string;
+}
+
+export type FlyerElement = FlyerFrame | FlyerRibbon | FlyerInfoBar;
+
+export interface FlyerTemplate {
+  id: string;
+  name: string;
+  createdAt: number;
+  builtIn?: boolean;
+  elements: FlyerElement[]; // Drawn in order
+}
+
+// Persisted image metadata. The original bytes live in their own store.
+export interface StoredImage {
+  id: string;
+  projectId: string;
+  name: string;
+  type: string;
+  adjustments: Adjustments;
+  privacyRegions?: BoundingBox[];
+  manualRegions?: ManualRegion[];
+  metadata?: PhotoMetadata;
+  room?: string;
+  contentHash?: string;
 }
 
 export interface Preset {
@@ -48,6 +295,92 @@ export interface UserConfig {
   name: string;
   createdAt: number;
   adjustments: Adjustments;
+  naming?: FileNamingSettings; // Saved with the config since older versions had none
+}
+
+// Export file names, e.g. "{codigo_imovel}_{seq:02}_{room}"
+export interface FileNamingSettings {
+  template: string;
+  zipName: string; // Same tokens, without the ".zip"
+}
+
+export type ExportFormat = 'jpeg' | 'webp' | 'avif' | 'png';
+
+// Fields written to the EXIF of exported JPEGs, from the brokerage settings
+export interface ExportMetadata {
+  writeCopyright: boolean;
+  artist: string;
+  copyright: string;
+  description: string;
+}
+
+export interface ExportSettings {
+  format: ExportFormat;
+  keepTransparency: boolean;   // Photos with transparent pixels are saved as PNG regardless of format
+  maxLongEdge: number | null;  // Pixels, null = original resolution
+  quality: number;             // 0-1, lossy formats only
+  targetKB: number | null;     // Max file size; searches the highest quality that fits
+  aspectRatio: number | null;  // Width / height forced on the output, null = keep
+  fit: 'crop' | 'pad';         // How the aspect ratio is reached
+  padColor: string;
+}
+
+export interface ExportProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  settings: ExportSettings;
+  minWidth: number | null;
+  minHeight: number | null;
+  maxPhotos: number | null;
+  fileNameTemplate: string;    // See services/fileNaming
+}
+
+export interface PhotoValidation {
+  id: string;
+  name: string;
+  issues: string[];
+}
+
+export interface ProfileValidation {
+  profileId: string;
+  errors: string[];            // Problems with the selection as a whole (e.g. photo count)
+  photos: PhotoValidation[];   // Only photos with issues
+}
+
+export type BatchItemStatus = 'queued' | 'rendering' | 'done' | 'error' | 'cancelled';
+
+// Per-image state of a running batch export
+export interface BatchProgressItem {
+  id: string;
+  name: string;
+  status: BatchItemStatus;
+  error?: string;
+}
+
+export type AiJobKind = 'detectPrivacy' | 'enhance' | 'removeBackground';
+export type AiJobStatus = 'queued' | 'running' | 'retrying' | 'failed' | 'cancelled';
+
+// One AI request in the persistent queue. Finished jobs are removed; failed and
+// cancelled ones stay until retried or dismissed.
+export interface AiJob {
+  id: string;
+  kind: AiJobKind;
+  imageId: string;
+  layerId?: string;       // removeBackground: the image layer to cut out
+  bypassCache?: boolean;  // Asks the provider again (re-detect); the answer still refreshes the cache
+  status: AiJobStatus;
+  attempts: number;
+  nextAttemptAt: number;  // Backoff: not started before this time
+  error?: string;
+  createdAt: number;
+}
+
+export interface AiQueueState {
+  jobs: AiJob[];
+  tokens: number;          // Rate limit token bucket
+  tokensUpdatedAt: number;
+  pausedUntil: number;     // Quota exhausted: no job starts before this time
 }
 
 export enum FilterType {
@@ -59,11 +392,30 @@ export enum FilterType {
   PASTEL = 'Pastel'
 }
 
+// One undoable step. Stores the adjustments of every affected image
+// before and after the edit, keyed by image id.
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  mergeKey?: string; // Consecutive edits with the same key (e.g. a slider drag) collapse into one step
+  before: Record<string, Adjustments>;
+  after: Record<string, Adjustments>;
+}
+
+// Optional metadata passed along with an adjustments update
+export interface HistoryAction {
+  label: string;
+  mergeKey?: string;
+}
+
 export interface AppState {
   images: ImageFile[];
   selectedImageId: string | null;
   adjustments: Adjustments;
   presets: Preset[];
-  history: Adjustments[];
-  historyIndex: number;
-}
\ No newline at end of file
+  history: HistoryEntry[];
+  historyIndex: number; // Index of the last applied entry, -1 when nothing to undo
+}
+
+export type HistoryState = Pick<AppState, 'history' | 'historyIndex'>;
\ No newline at end of file